@@ -5,25 +5,58 @@
  *
  * Also handles Initial Discovery for creating entities during finalization.
  * For large batches, discovery runs asynchronously via alarms.
+ *
+ * State is stored in SQLite tables (see batch-storage.ts) so that
+ * per-file and per-node updates don't rewrite the whole batch.
+ *
+ * Clients can follow a batch over a hibernatable WebSocket
+ * (GET /api/batches/:batchId/events); every file completion, status
+ * change and discovery step is pushed to all connected sockets.
  */
 
 import { DurableObject } from 'cloudflare:workers';
+import { ulid } from 'ulidx';
 import type {
   BatchState,
+  BatchStatus,
+  BatchEvent,
+  BatchEventBody,
+  DiscoveryProgress,
+  WebhookDelivery,
+  WebhookEventType,
+  WebhookPayload,
+  ProcessingEventsRequest,
+  ProcessingProgress,
+  PIProcessingState,
   FileState,
   CompletedPart,
   ProcessedFileInfo,
   BatchManifest,
   DiscoveryState,
   DiscoveryResult,
+  RetryDiscoveryResponse,
   PreprocessorQueueMessage,
   Env,
 } from '../types';
+import { QUEUE_SCHEMA_VERSION } from '../types';
 import {
   buildDiscoveryTree,
   processDiscoveryBatch,
   attachToExternalParent,
+  resetFailedTextFiles,
 } from '../services/initial-discovery';
+import {
+  abortIncompleteUploads,
+  deleteStagedObjects,
+  getIncompleteUploads,
+} from '../lib/r2-cleanup';
+import { validateMultipartCompletion } from '../lib/validation';
+import { sendWebhook } from '../lib/webhooks';
+import { sendQueueMessage } from '../lib/queue';
+import { preprocessorQueueMessageSchema } from '../schemas/queue-messages';
+import { SIGNATURE_TOLERANCE_SECONDS } from '../lib/service-auth';
+import { getUploaderIndexStub } from '../lib/durable-object-helpers';
+import { BatchStorage, type BatchRecord } from './batch-storage';
 
 // Discovery configuration
 // Constraint: Cloudflare Workers allow 1000 subrequests per invocation (paid plan)
@@ -33,20 +66,78 @@ const DISCOVERY_ENTITY_BATCH_SIZE = 100; // Entities to create per alarm iterati
 const DISCOVERY_ALARM_DELAY = 100; // ms between alarms
 const DISCOVERY_MAX_RETRIES = 5; // Max retries before failing
 
+// R2 cleanup of aborted / expired batches
+const CLEANUP_UPLOADS_PER_ALARM = 100; // Multipart uploads aborted per alarm (one subrequest each)
+const CLEANUP_RETRY_DELAY = 60000; // ms before retrying a failed cleanup
+
+// Webhook configuration
+const WEBHOOK_MAX_ATTEMPTS = 8; // Attempts before a delivery is marked failed
+const WEBHOOK_RETRY_BASE_DELAY = 30000; // ms, doubled after each failed attempt
+const WEBHOOK_RETRY_MAX_DELAY = 3600000; // ms cap on the backoff (1 hour)
+const WEBHOOK_STATUSES = new Set<BatchStatus>(['preprocessing', 'enqueued', 'completed', 'failed']);
+
+/**
+ * Purposes the single Durable Object alarm is multiplexed across.
+ * Each purpose has its own due time in the 'alarms' storage key;
+ * the runtime alarm is always armed for the earliest one.
+ */
+type AlarmPurpose = 'discovery' | 'expiry' | 'cleanup' | 'webhook';
+type AlarmSchedule = Partial<Record<AlarmPurpose, number>>;
+
 export class BatchStateObject extends DurableObject<Env> {
+  private store: BatchStorage;
+
+  constructor(ctx: DurableObjectState, env: Env) {
+    super(ctx, env);
+    this.store = new BatchStorage(ctx.storage);
+
+    // Create tables and move batches from the old 'state' key before serving requests
+    ctx.blockConcurrencyWhile(async () => {
+      this.store.ensureSchema();
+      await this.store.migrateLegacyState();
+    });
+
+    // Answer keepalive pings without waking the object
+    ctx.setWebSocketAutoResponse(new WebSocketRequestResponsePair('ping', 'pong'));
+  }
+
+  /**
+   * Load batch-level fields (without files or discovery state)
+   */
+  private requireBatch(): BatchRecord {
+    const batch = this.store.getBatch();
+    if (!batch) {
+      throw new Error('Batch not found');
+    }
+    return batch;
+  }
+
   /**
    * Initialize a new batch
+   * Schedules the expiry alarm if the batch has an expires_at
    */
   async initBatch(batchState: BatchState): Promise<void> {
-    await this.ctx.storage.put('state', batchState);
+    this.store.putState(batchState);
+    await this.updateUploaderIndex(batchState);
+
+    if (batchState.expires_at) {
+      await this.scheduleAlarm('expiry', Date.parse(batchState.expires_at));
+    }
   }
 
   /**
    * Get current batch state
    */
   async getState(): Promise<BatchState | null> {
-    const state = await this.ctx.storage.get<BatchState>('state');
-    return state ?? null;
+    return this.store.getState();
+  }
+
+  /**
+   * Get batch-level state without the file list or discovery state
+   * Cheap regardless of batch size - use when files aren't needed
+   */
+  async getBatch(): Promise<BatchRecord | null> {
+    return this.store.getBatch();
   }
 
   /**
@@ -54,40 +145,89 @@ export class BatchStateObject extends DurableObject<Env> {
    * This is the key operation that was failing with KV
    */
   async addFile(fileState: FileState): Promise<void> {
-    const state = await this.ctx.storage.get<BatchState>('state');
-    if (!state) {
-      throw new Error('Batch not found');
-    }
+    const batch = this.requireBatch();
 
-    if (state.status !== 'uploading') {
-      throw new Error(`Batch status is ${state.status}, expected uploading`);
+    if (batch.status !== 'uploading') {
+      throw new Error(`Batch status is ${batch.status}, expected uploading`);
     }
 
     // This is TRULY atomic - no concurrent modifications possible
     // The Durable Object guarantees single-threaded execution
-    state.files.push(fileState);
-    await this.ctx.storage.put('state', state);
+    this.store.putFile(fileState);
+  }
+
+  /**
+   * Add many new files to batch in a single transaction (ATOMIC)
+   * Either all files are added or none are - a file already in the batch
+   * (e.g. started by a concurrent call) fails the whole call
+   */
+  async addFiles(fileStates: FileState[]): Promise<void> {
+    const batch = this.requireBatch();
+
+    if (batch.status !== 'uploading') {
+      throw new Error(`Batch status is ${batch.status}, expected uploading`);
+    }
+
+    const existing = fileStates.find((f) => this.store.getFile(f.r2_key));
+    if (existing) {
+      throw new Error(`File already exists in batch: ${existing.logical_path}`);
+    }
+
+    this.ctx.storage.transactionSync(() => {
+      for (const fileState of fileStates) {
+        this.store.putFile(fileState);
+      }
+    });
+  }
+
+  /**
+   * Get a single file from the batch
+   */
+  async getFile(r2Key: string): Promise<FileState> {
+    this.requireBatch();
+
+    const file = this.store.getFile(r2Key);
+    if (!file) {
+      throw new Error('File not found in batch');
+    }
+
+    return file;
+  }
+
+  /**
+   * Get several files from the batch by r2_key (indexed lookups)
+   * Keys not in the batch are omitted from the result
+   */
+  async getFiles(r2Keys: string[]): Promise<FileState[]> {
+    this.requireBatch();
+
+    return r2Keys
+      .map((r2Key) => this.store.getFile(r2Key))
+      .filter((file): file is FileState => file !== null);
   }
 
   /**
    * Complete a file upload (ATOMIC)
-   * Validates and marks file as completed
+   * Validates and marks file as completed, recording the integrity
+   * check the caller performed against R2
    */
   async completeFile(
     r2Key: string,
     uploadId?: string,
-    parts?: CompletedPart[]
+    parts?: CompletedPart[],
+    verification?: { checksum_sha256?: string }
   ): Promise<{
     alreadyCompleted: boolean;
     file: FileState;
     needsMultipartComplete: boolean;
   }> {
-    const state = await this.ctx.storage.get<BatchState>('state');
-    if (!state) {
-      throw new Error('Batch not found');
+    const batch = this.requireBatch();
+
+    if (batch.status === 'aborted') {
+      throw new Error('Batch status is aborted, cannot complete files');
     }
 
-    const file = state.files.find((f) => f.r2_key === r2Key);
+    const file = this.store.getFile(r2Key);
     if (!file) {
       throw new Error('File not found in batch');
     }
@@ -103,27 +243,23 @@ export class BatchStateObject extends DurableObject<Env> {
 
     // Validate multipart params if needed
     if (file.upload_type === 'multipart') {
-      if (!uploadId || !parts || !Array.isArray(parts)) {
-        throw new Error('Missing upload_id or parts for multipart upload');
-      }
-      if (uploadId !== file.upload_id) {
-        throw new Error('upload_id mismatch');
-      }
-      // Validate parts format
-      for (const part of parts) {
-        if (
-          typeof part.part_number !== 'number' ||
-          typeof part.etag !== 'string'
-        ) {
-          throw new Error('Invalid parts format');
-        }
+      const partsError = validateMultipartCompletion(file, uploadId, parts);
+      if (partsError) {
+        throw new Error(partsError);
       }
     }
 
     // Update status atomically
     file.status = 'completed';
     file.completed_at = new Date().toISOString();
-    await this.ctx.storage.put('state', state);
+    if (verification) {
+      file.verified_at = file.completed_at;
+      if (verification.checksum_sha256) {
+        file.checksum_sha256 = verification.checksum_sha256;
+      }
+    }
+    this.store.putFile(file);
+    this.broadcastFileCompleted(batch.batch_id, file);
 
     return {
       alreadyCompleted: false,
@@ -132,20 +268,91 @@ export class BatchStateObject extends DurableObject<Env> {
     };
   }
 
+  /**
+   * Complete many file uploads in a single transaction (ATOMIC)
+   * Each item is validated independently; invalid items are reported
+   * with an error and the valid ones are marked completed together.
+   */
+  async completeFiles(
+    items: Array<{
+      r2_key: string;
+      upload_id?: string;
+      parts?: CompletedPart[];
+      verification?: { checksum_sha256?: string };
+    }>
+  ): Promise<Array<{ r2_key: string; error?: string }>> {
+    const batch = this.requireBatch();
+
+    if (batch.status === 'aborted') {
+      throw new Error('Batch status is aborted, cannot complete files');
+    }
+
+    const completedAt = new Date().toISOString();
+    const results: Array<{ r2_key: string; error?: string }> = [];
+    const completed: FileState[] = [];
+
+    this.ctx.storage.transactionSync(() => {
+      for (const item of items) {
+        const file = this.store.getFile(item.r2_key);
+        if (!file) {
+          results.push({ r2_key: item.r2_key, error: 'File not found in batch' });
+          continue;
+        }
+
+        if (file.status === 'completed') {
+          // Already completed - idempotent
+          results.push({ r2_key: item.r2_key });
+          continue;
+        }
+
+        if (file.upload_type === 'multipart') {
+          const partsError = validateMultipartCompletion(file, item.upload_id, item.parts);
+          if (partsError) {
+            results.push({ r2_key: item.r2_key, error: partsError });
+            continue;
+          }
+        }
+
+        file.status = 'completed';
+        file.completed_at = completedAt;
+        if (item.verification) {
+          file.verified_at = completedAt;
+          if (item.verification.checksum_sha256) {
+            file.checksum_sha256 = item.verification.checksum_sha256;
+          }
+        }
+        this.store.putFile(file);
+        completed.push(file);
+        results.push({ r2_key: item.r2_key });
+      }
+    });
+
+    // Only announce once the transaction has committed
+    for (const file of completed) {
+      this.broadcastFileCompleted(batch.batch_id, file);
+    }
+
+    return results;
+  }
+
   /**
    * Update batch status
+   * Only moves on from expectedStatus, so a batch aborted or expired in
+   * the meantime is never overwritten
    */
-  async updateStatus(status: string, enqueuedAt?: string): Promise<void> {
-    const state = await this.ctx.storage.get<BatchState>('state');
-    if (!state) {
-      throw new Error('Batch not found');
+  async updateStatus(status: BatchStatus, expectedStatus: BatchStatus, enqueuedAt?: string): Promise<void> {
+    const batch = this.requireBatch();
+    const previousStatus = batch.status;
+    if (previousStatus !== expectedStatus) {
+      throw new Error(`Batch status is ${previousStatus}, expected ${expectedStatus}`);
     }
 
-    state.status = status as any;
+    batch.status = status;
     if (enqueuedAt) {
-      state.enqueued_at = enqueuedAt;
+      batch.enqueued_at = enqueuedAt;
     }
-    await this.ctx.storage.put('state', state);
+    this.store.putBatch(batch);
+    await this.onStatusChanged(batch, previousStatus);
   }
 
   /**
@@ -153,19 +360,17 @@ export class BatchStateObject extends DurableObject<Env> {
    * Used after preprocessing completes (TIFF conversion, PDF splitting, etc.)
    */
   async replaceFiles(processedFiles: ProcessedFileInfo[]): Promise<void> {
-    const state = await this.ctx.storage.get<BatchState>('state');
-    if (!state) {
-      throw new Error('Batch not found');
-    }
+    this.requireBatch();
 
     // Wholesale replacement of file list
-    state.files = processedFiles.map(pf => ({
+    const files: FileState[] = processedFiles.map(pf => ({
       r2_key: pf.r2_key,
       file_name: pf.file_name,
       file_size: pf.file_size,
       logical_path: pf.logical_path,
       content_type: pf.content_type,
       cid: pf.cid,
+      derived_from: pf.derived_from,
       status: 'completed' as const,
       completed_at: new Date().toISOString(),
       upload_type: 'simple' as const,
@@ -178,7 +383,73 @@ export class BatchStateObject extends DurableObject<Env> {
       },
     }));
 
-    await this.ctx.storage.put('state', state);
+    this.ctx.storage.transactionSync(() => {
+      this.store.saveOriginalFiles();
+      this.store.replaceFiles(files);
+    });
+  }
+
+  /**
+   * Files as uploaded, before any preprocessor replacement
+   * Used to validate preprocessor output (also on retried callbacks)
+   */
+  async getOriginalFiles(): Promise<FileState[]> {
+    return this.store.listOriginalFiles();
+  }
+
+  /**
+   * Remove a file from the batch (ATOMIC)
+   * Only allowed while the batch is still uploading
+   * Returns the removed file so the caller can clean up R2
+   */
+  async removeFile(r2Key: string): Promise<FileState> {
+    const batch = this.requireBatch();
+
+    if (batch.status !== 'uploading') {
+      throw new Error(`Batch status is ${batch.status}, expected uploading`);
+    }
+
+    const removed = this.store.getFile(r2Key);
+    if (!removed) {
+      throw new Error('File not found in batch');
+    }
+
+    this.store.deleteFile(r2Key);
+    return removed;
+  }
+
+  /**
+   * Abort the batch (ATOMIC)
+   * Moves the batch to the terminal 'aborted' status so no further
+   * files can be added, and schedules its R2 cleanup.
+   * Batches already aborted are returned unchanged (idempotent).
+   */
+  async abortBatch(): Promise<{ alreadyAborted: boolean; state: BatchState }> {
+    const state = this.store.getState();
+    if (!state) {
+      throw new Error('Batch not found');
+    }
+
+    if (state.status === 'aborted') {
+      return { alreadyAborted: true, state };
+    }
+
+    if (state.status !== 'uploading' && state.status !== 'failed') {
+      throw new Error(`Batch status is ${state.status}, cannot abort`);
+    }
+
+    const previousStatus = state.status;
+    state.status = 'aborted';
+    state.aborted_at = new Date().toISOString();
+    const { files: _files, discovery_state: _discovery, ...batch } = state;
+    this.store.putBatch(batch);
+    await this.onStatusChanged(batch, previousStatus);
+    await this.cancelAlarm('expiry');
+
+    // R2 cleanup runs from the alarm, within its subrequest limit
+    await this.scheduleAlarm('cleanup', Date.now());
+
+    return { alreadyAborted: false, state };
   }
 
   /**
@@ -186,6 +457,103 @@ export class BatchStateObject extends DurableObject<Env> {
    */
   async deleteBatch(): Promise<void> {
     await this.ctx.storage.deleteAll();
+    this.store.reset();
+  }
+
+  /**
+   * Record a service request signature as used (replay protection)
+   * Returns false if the same signature was already seen
+   */
+  async claimRequestSignature(signature: string): Promise<boolean> {
+    this.requireBatch();
+
+    // Kept for twice the timestamp window, after which the request is rejected as stale anyway
+    return this.store.claimSignature(
+      signature,
+      Date.now() + 2 * SIGNATURE_TOLERANCE_SECONDS * 1000
+    );
+  }
+
+  // ============================================================================
+  // Orchestrator Progress (after enqueue)
+  // ============================================================================
+
+  /**
+   * Apply progress reported by the orchestrator (ATOMIC)
+   * The first update moves the batch from 'enqueued' to 'processing';
+   * an outcome closes it out as 'completed' or 'failed'.
+   */
+  async recordProcessingEvents(request: ProcessingEventsRequest): Promise<{
+    status: BatchStatus;
+    processing_progress: ProcessingProgress;
+  }> {
+    const batch = this.requireBatch();
+
+    if (batch.status !== 'enqueued' && batch.status !== 'processing') {
+      throw new Error(`Batch status is ${batch.status}, expected enqueued or processing`);
+    }
+
+    // Only PIs created by discovery belong to this batch
+    const knownPis = new Set(Object.values(this.store.getDiscoveryRecord()?.node_pis ?? {}));
+    for (const update of request.pis ?? []) {
+      if (!knownPis.has(update.pi)) {
+        throw new Error(`Unknown PI: ${update.pi}`);
+      }
+    }
+
+    const previousStatus = batch.status;
+    const now = new Date().toISOString();
+
+    this.ctx.storage.transactionSync(() => {
+      for (const update of request.pis ?? []) {
+        const piState: PIProcessingState = {
+          pi: update.pi,
+          status: update.status,
+          phase: update.phase,
+          error: update.status === 'failed' ? update.error : undefined,
+          updated_at: now,
+        };
+        this.store.putProcessingPi(piState);
+      }
+
+      if (request.outcome) {
+        batch.status = request.outcome;
+        batch.completed_at = now;
+        batch.processing_error = request.outcome === 'failed' ? request.error : undefined;
+      } else {
+        batch.status = 'processing';
+      }
+      this.store.putBatch(batch);
+    });
+
+    const progress = this.buildProcessingProgress(knownPis.size);
+    this.broadcast(batch.batch_id, { type: 'processing_progress', ...progress });
+    await this.onStatusChanged(batch, previousStatus);
+
+    return { status: batch.status, processing_progress: progress };
+  }
+
+  /**
+   * Per-PI orchestrator progress (for status)
+   * Returns null until the orchestrator has reported anything
+   */
+  async getProcessingProgress(): Promise<{
+    processing_progress: ProcessingProgress;
+    processing_failures: PIProcessingState[];
+  } | null> {
+    const record = this.store.getDiscoveryRecord();
+    const progress = this.buildProcessingProgress(Object.keys(record?.node_pis ?? {}).length);
+    if (progress.processing + progress.completed + progress.failed === 0) {
+      return null;
+    }
+    return {
+      processing_progress: progress,
+      processing_failures: this.store.listProcessingPis('failed'),
+    };
+  }
+
+  private buildProcessingProgress(total: number): ProcessingProgress {
+    return { total, ...this.store.countProcessingPis() };
   }
 
   // ============================================================================
@@ -197,27 +565,35 @@ export class BatchStateObject extends DurableObject<Env> {
    * Schedules alarm-based processing to avoid timeout
    */
   async startDiscovery(manifest: BatchManifest, parentPi?: string): Promise<void> {
-    const state = await this.ctx.storage.get<BatchState>('state');
-    if (!state) {
-      throw new Error('Batch not found');
+    const batch = this.requireBatch();
+    if (batch.status !== 'uploading') {
+      throw new Error(`Batch status is ${batch.status}, expected uploading`);
     }
 
     // Build discovery tree
-    const discoveryState = buildDiscoveryTree(manifest);
+    const discoveryState = buildDiscoveryTree(manifest, batch.chunking_config);
 
     // Update state
-    state.discovery_state = discoveryState;
-    state.status = 'discovery';
+    const previousStatus = batch.status;
+    batch.status = 'discovery';
     if (parentPi) {
-      state.parent_pi = parentPi;
+      batch.parent_pi = parentPi;
     }
-    await this.ctx.storage.put('state', state);
+    this.ctx.storage.transactionSync(() => {
+      this.store.putDiscoveryState(discoveryState);
+      this.store.putBatch(batch);
+    });
+    await this.onStatusChanged(batch, previousStatus);
+    this.broadcastDiscoveryProgress(batch.batch_id, discoveryState);
 
     // Store manifest for alarm processing
     await this.ctx.storage.put('manifest', manifest);
 
+    // Batch is finalized - it can no longer expire
+    await this.cancelAlarm('expiry');
+
     // Schedule first alarm
-    await this.ctx.storage.setAlarm(Date.now() + DISCOVERY_ALARM_DELAY);
+    await this.scheduleAlarm('discovery', Date.now() + DISCOVERY_ALARM_DELAY);
 
     console.log(
       `[Discovery] Started async for ${discoveryState.directories_total} directories`
@@ -225,59 +601,499 @@ export class BatchStateObject extends DurableObject<Env> {
   }
 
   /**
-   * Alarm handler - processes discovery in batches
+   * Resume async discovery after it failed (max retries exceeded)
+   * Restores the phase that failed, resets the retry count and re-arms
+   * the alarm. With retryFailedFiles, text files and chunks whose IPFS
+   * upload failed are re-attempted as well.
+   */
+  async retryDiscovery(retryFailedFiles = false): Promise<RetryDiscoveryResponse> {
+    const batch = this.requireBatch();
+    const discoveryState = this.store.getDiscoveryState();
+
+    if (batch.status !== 'failed' || !discoveryState || discoveryState.phase !== 'ERROR') {
+      throw new Error(`Batch status is ${batch.status}, discovery cannot be retried`);
+    }
+
+    // Batches that failed before failed_phase was recorded restart from
+    // UPLOADING - completed work is skipped, so nothing is redone
+    let phase = discoveryState.failed_phase ?? 'UPLOADING';
+    let filesReset = 0;
+    let chunksReset = 0;
+    if (retryFailedFiles) {
+      const reset = resetFailedTextFiles(discoveryState, phase);
+      phase = reset.phase;
+      filesReset = reset.files_reset;
+      chunksReset = reset.chunks_reset;
+    }
+
+    discoveryState.phase = phase;
+    discoveryState.retry_count = 0;
+    discoveryState.error = undefined;
+    discoveryState.failed_phase = undefined;
+    batch.status = 'discovery';
+    this.ctx.storage.transactionSync(() => {
+      this.store.putDiscoveryState(discoveryState);
+      this.store.putBatch(batch);
+    });
+    await this.onStatusChanged(batch, 'failed');
+    this.broadcastDiscoveryProgress(batch.batch_id, discoveryState);
+
+    await this.scheduleAlarm('discovery', Date.now() + DISCOVERY_ALARM_DELAY);
+
+    console.log(
+      `[Discovery] Retrying from ${phase} (${filesReset} files, ${chunksReset} chunks reset)`
+    );
+
+    return {
+      batch_id: batch.batch_id,
+      status: batch.status,
+      phase,
+      files_reset: filesReset,
+      chunks_reset: chunksReset,
+    };
+  }
+
+  // ============================================================================
+  // Event Stream (hibernatable WebSockets)
+  // ============================================================================
+
+  /**
+   * Accept a WebSocket for GET /api/batches/:batchId/events
+   * The socket gets a snapshot immediately, then live events
+   */
+  override async fetch(request: Request): Promise<Response> {
+    if (request.headers.get('Upgrade')?.toLowerCase() !== 'websocket') {
+      return Response.json({ error: 'Expected WebSocket upgrade' }, { status: 426 });
+    }
+
+    const batch = this.store.getBatch();
+    if (!batch) {
+      return Response.json({ error: 'Batch not found' }, { status: 404 });
+    }
+
+    const { 0: client, 1: server } = new WebSocketPair();
+    this.ctx.acceptWebSocket(server);
+
+    const discoveryState = this.store.getDiscoveryState();
+    server.send(
+      JSON.stringify(
+        this.buildEvent(batch.batch_id, {
+          type: 'snapshot',
+          status: batch.status,
+          file_count: batch.file_count,
+          ...this.store.getUploadProgress(),
+          root_pi: batch.root_pi,
+          discovery_progress: discoveryState ? toDiscoveryProgress(discoveryState) : undefined,
+        })
+      )
+    );
+
+    return new Response(null, { status: 101, webSocket: client });
+  }
+
+  /**
+   * The stream is server-to-client only - client messages are ignored
+   * (keepalive 'ping' is answered by the auto-response)
+   */
+  override async webSocketMessage(_ws: WebSocket, _message: string | ArrayBuffer): Promise<void> {}
+
+  override async webSocketClose(ws: WebSocket, code: number, reason: string): Promise<void> {
+    ws.close(code, reason);
+  }
+
+  private buildEvent(batchId: string, body: BatchEventBody): BatchEvent {
+    return { ...body, batch_id: batchId, timestamp: new Date().toISOString() };
+  }
+
+  /**
+   * Send an event to every connected client
+   * A socket that fails to send is dropped; the others still get the event
+   */
+  private broadcast(batchId: string, body: BatchEventBody): void {
+    const sockets = this.ctx.getWebSockets();
+    if (sockets.length === 0) {
+      return;
+    }
+
+    const message = JSON.stringify(this.buildEvent(batchId, body));
+    for (const ws of sockets) {
+      try {
+        ws.send(message);
+      } catch (error) {
+        console.warn('[Events] Dropping socket after send failure:', error);
+        ws.close(1011, 'Send failed');
+      }
+    }
+  }
+
+  private broadcastFileCompleted(batchId: string, file: FileState): void {
+    this.broadcast(batchId, {
+      type: 'file_completed',
+      r2_key: file.r2_key,
+      logical_path: file.logical_path,
+      file_size: file.file_size,
+      completed_at: file.completed_at!,
+    });
+  }
+
+  /**
+   * Announce a status change to connected clients and, for the
+   * statuses downstream systems care about, to the batch's webhook
+   */
+  private async onStatusChanged(batch: BatchRecord, previousStatus: BatchStatus): Promise<void> {
+    if (batch.status === previousStatus) {
+      return;
+    }
+    await this.updateUploaderIndex(batch);
+    this.broadcast(batch.batch_id, {
+      type: 'status_changed',
+      status: batch.status,
+      previous_status: previousStatus,
+      root_pi: batch.root_pi,
+    });
+
+    if (WEBHOOK_STATUSES.has(batch.status)) {
+      await this.queueWebhook(batch, 'status_changed', {
+        previous_status: previousStatus,
+        root_pi: batch.root_pi,
+      });
+    }
+  }
+
+  private broadcastDiscoveryProgress(batchId: string, discoveryState: DiscoveryState): void {
+    this.broadcast(batchId, {
+      type: 'discovery_progress',
+      ...toDiscoveryProgress(discoveryState),
+    });
+  }
+
+  /**
+   * Upsert this batch's entry in its uploader's index
+   * The index is secondary - a failure is logged, not propagated
+   */
+  private async updateUploaderIndex(batch: BatchRecord): Promise<void> {
+    try {
+      const index = getUploaderIndexStub(this.env.UPLOADER_INDEX_DO, batch.uploader);
+      await index.upsertBatch({
+        batch_id: batch.batch_id,
+        uploader: batch.uploader,
+        root_path: batch.root_path,
+        status: batch.status,
+        file_count: batch.file_count,
+        total_size: batch.total_size,
+        created_at: batch.created_at,
+        updated_at: new Date().toISOString(),
+        root_pi: batch.root_pi,
+      }, batch.created_by);
+    } catch (error) {
+      console.error(`[Index] Failed to update uploader index for ${batch.batch_id}:`, error);
+    }
+  }
+
+  // ============================================================================
+  // Webhooks
+  // ============================================================================
+
+  /**
+   * Get webhook delivery history (for status)
+   */
+  async getWebhookDeliveries(): Promise<WebhookDelivery[]> {
+    return this.store.listWebhookDeliveries();
+  }
+
+  /**
+   * Record a webhook delivery and wake the alarm to send it
+   * No-op for batches without a callback_url and callback_secret
+   */
+  private async queueWebhook(
+    batch: BatchRecord,
+    event: WebhookEventType,
+    fields: Pick<WebhookPayload, 'previous_status' | 'root_pi' | 'discovery_outcome'>
+  ): Promise<void> {
+    if (!batch.callback_url || !batch.callback_secret) {
+      return;
+    }
+
+    const now = new Date().toISOString();
+    const id = `whd_${ulid()}`;
+    const delivery: WebhookDelivery = {
+      id,
+      event,
+      payload: {
+        id,
+        event,
+        batch_id: batch.batch_id,
+        timestamp: now,
+        status: batch.status,
+        ...fields,
+      },
+      status: 'pending',
+      attempts: 0,
+      created_at: now,
+      next_attempt_at: now,
+    };
+    this.store.putWebhookDelivery(delivery);
+
+    await this.scheduleAlarm('webhook', Date.now());
+  }
+
+  /**
+   * Send every due webhook delivery once
+   * Failed attempts back off exponentially until WEBHOOK_MAX_ATTEMPTS
+   */
+  private async runWebhooks(): Promise<void> {
+    const batch = this.store.getBatch();
+    // Deliveries are never sent unsigned
+    if (!batch || !batch.callback_url || !batch.callback_secret) {
+      return;
+    }
+
+    for (const delivery of this.store.listDueWebhookDeliveries(Date.now())) {
+      const result = await sendWebhook(batch.callback_url, batch.callback_secret, delivery);
+
+      delivery.attempts++;
+      delivery.last_attempt_at = new Date().toISOString();
+      delivery.last_response_status = result.status;
+      delivery.last_error = result.error;
+
+      if (result.ok) {
+        delivery.status = 'delivered';
+        delivery.delivered_at = delivery.last_attempt_at;
+        delivery.next_attempt_at = undefined;
+      } else if (delivery.attempts >= WEBHOOK_MAX_ATTEMPTS) {
+        delivery.status = 'failed';
+        delivery.next_attempt_at = undefined;
+        console.error(
+          `[Webhook] ${delivery.id} failed after ${delivery.attempts} attempts: ${result.error}`
+        );
+      } else {
+        const delay = Math.min(
+          WEBHOOK_RETRY_MAX_DELAY,
+          WEBHOOK_RETRY_BASE_DELAY * Math.pow(2, delivery.attempts - 1)
+        );
+        delivery.next_attempt_at = new Date(Date.now() + delay).toISOString();
+        console.warn(
+          `[Webhook] ${delivery.id} attempt ${delivery.attempts} failed (${result.error}), retrying in ${delay}ms`
+        );
+      }
+
+      this.store.putWebhookDelivery(delivery);
+    }
+
+    const next = this.store.getNextWebhookAttempt();
+    if (next !== null) {
+      await this.scheduleAlarm('webhook', next);
+    }
+  }
+
+  // ============================================================================
+  // Alarm Scheduling
+  // ============================================================================
+
+  /**
+   * Schedule (or reschedule) the alarm for one purpose
+   */
+  private async scheduleAlarm(purpose: AlarmPurpose, at: number): Promise<void> {
+    const schedule = (await this.ctx.storage.get<AlarmSchedule>('alarms')) ?? {};
+    schedule[purpose] = at;
+    await this.ctx.storage.put('alarms', schedule);
+    await this.armNextAlarm(schedule);
+  }
+
+  /**
+   * Cancel the alarm for one purpose (no-op if not scheduled)
+   */
+  private async cancelAlarm(purpose: AlarmPurpose): Promise<void> {
+    const schedule = await this.ctx.storage.get<AlarmSchedule>('alarms');
+    if (!schedule || schedule[purpose] === undefined) {
+      return;
+    }
+    delete schedule[purpose];
+    await this.ctx.storage.put('alarms', schedule);
+    await this.armNextAlarm(schedule);
+  }
+
+  /**
+   * Arm the runtime alarm for the earliest scheduled purpose
+   */
+  private async armNextAlarm(schedule: AlarmSchedule): Promise<void> {
+    const times = Object.values(schedule).filter((t): t is number => t !== undefined);
+    if (times.length === 0) {
+      await this.ctx.storage.deleteAlarm();
+      return;
+    }
+    await this.ctx.storage.setAlarm(Math.min(...times));
+  }
+
+  /**
+   * Alarm handler - dispatches to every purpose that is due
    * Called automatically by Durable Object runtime
+   */
+  override async alarm(): Promise<void> {
+    // Batches that started discovery before alarms were multiplexed
+    // have no schedule - treat the alarm as a discovery alarm
+    const schedule = (await this.ctx.storage.get<AlarmSchedule>('alarms')) ?? {
+      discovery: Date.now(),
+    };
+
+    const now = Date.now();
+    const due = (Object.keys(schedule) as AlarmPurpose[]).filter(
+      (purpose) => schedule[purpose]! <= now
+    );
+    for (const purpose of due) {
+      delete schedule[purpose];
+    }
+    await this.ctx.storage.put('alarms', schedule);
+
+    for (const purpose of due) {
+      switch (purpose) {
+        case 'expiry':
+          await this.runExpiry();
+          break;
+        case 'cleanup':
+          await this.runCleanup();
+          break;
+        case 'discovery':
+          await this.runDiscoveryStep();
+          break;
+        case 'webhook':
+          await this.runWebhooks();
+          break;
+      }
+    }
+
+    // Handlers may have rescheduled themselves
+    const next = (await this.ctx.storage.get<AlarmSchedule>('alarms')) ?? {};
+    await this.armNextAlarm(next);
+  }
+
+  /**
+   * Expire a batch that was never finalized
+   * Marks the batch 'expired' first (so finalize can no longer start), then
+   * releases its R2 storage.
+   */
+  private async runExpiry(): Promise<void> {
+    const batch = this.store.getBatch();
+    if (!batch || (batch.status !== 'uploading' && batch.status !== 'expired')) {
+      return;
+    }
+
+    if (batch.status === 'uploading') {
+      batch.status = 'expired';
+      batch.expired_at = new Date().toISOString();
+      this.store.putBatch(batch);
+      await this.onStatusChanged(batch, 'uploading');
+    }
+
+    await this.runCleanup();
+  }
+
+  /**
+   * Release the R2 storage of an aborted or expired batch
+   * Aborts incomplete multipart uploads CLEANUP_UPLOADS_PER_ALARM at a time,
+   * rescheduling itself until none are left, then deletes the staged
+   * objects. A failed step is retried by the next cleanup alarm.
+   */
+  private async runCleanup(): Promise<void> {
+    const batch = this.store.getBatch();
+    if (!batch || (batch.status !== 'aborted' && batch.status !== 'expired')) {
+      return;
+    }
+
+    const pending = getIncompleteUploads(this.store.listFiles());
+    const offset = (await this.ctx.storage.get<number>('cleanup_offset')) ?? 0;
+
+    try {
+      if (offset < pending.length) {
+        const slice = pending.slice(offset, offset + CLEANUP_UPLOADS_PER_ALARM);
+        await abortIncompleteUploads(this.env.STAGING_BUCKET, slice);
+        await this.ctx.storage.put('cleanup_offset', offset + slice.length);
+        await this.scheduleAlarm('cleanup', Date.now());
+        return;
+      }
+
+      const objectsDeleted = await deleteStagedObjects(
+        this.env.STAGING_BUCKET,
+        `staging/${batch.batch_id}/`
+      );
+      await this.ctx.storage.delete('cleanup_offset');
+      console.log(
+        `[Cleanup] Batch ${batch.batch_id} ${batch.status}: aborted ${pending.length} uploads, deleted ${objectsDeleted} objects`
+      );
+    } catch (error) {
+      console.error(`[Cleanup] Failed for ${batch.batch_id}, retrying:`, error);
+      await this.scheduleAlarm('cleanup', Date.now() + CLEANUP_RETRY_DELAY);
+    }
+  }
+
+  /**
+   * Discovery alarm - processes discovery in batches
    *
    * Uses item-level batching to handle directories with many files:
    * - UPLOADING phase: Upload N files per alarm (avoids subrequest limits)
+   * - CHUNKING phase: Upload chunks, sliced from the source objects in R2
    * - PUBLISHING phase: Create N entities per alarm
    * - RELATIONSHIPS phase: Attach to parent, then done
    */
-  override async alarm(): Promise<void> {
-    const state = await this.ctx.storage.get<BatchState>('state');
-    if (!state || state.status !== 'discovery' || !state.discovery_state) {
+  private async runDiscoveryStep(): Promise<void> {
+    const batch = this.store.getBatch();
+    if (!batch || batch.status !== 'discovery') {
       return;
     }
 
-    const discoveryState = state.discovery_state;
+    const discoveryState = this.store.getDiscoveryState();
+    if (!discoveryState) {
+      return;
+    }
 
     try {
-      if (
-        discoveryState.phase === 'UPLOADING' ||
-        discoveryState.phase === 'PUBLISHING' ||
-        discoveryState.phase === 'RELATIONSHIPS'
-      ) {
+      // DONE with the batch still in 'discovery' means the final steps
+      // (attach to parent, enqueue) failed and are being retried
+      if (discoveryState.phase !== 'ERROR') {
         // Process next batch (uploads, entity creation, or relationship setup based on phase)
+        // Each published node is saved as soon as its entity exists,
+        // so a retry after a crash reuses the PI instead of minting a new one
         const hasMore = await processDiscoveryBatch(
           discoveryState,
           this.env,
           DISCOVERY_UPLOAD_BATCH_SIZE,
-          DISCOVERY_ENTITY_BATCH_SIZE
+          DISCOVERY_ENTITY_BATCH_SIZE,
+          () => this.store.putDiscoveryState(discoveryState)
         );
 
-        await this.ctx.storage.put('state', state);
+        this.store.putDiscoveryState(discoveryState);
+        this.broadcastDiscoveryProgress(batch.batch_id, discoveryState);
 
         if (hasMore) {
-          await this.ctx.storage.setAlarm(Date.now() + DISCOVERY_ALARM_DELAY);
+          await this.scheduleAlarm('discovery', Date.now() + DISCOVERY_ALARM_DELAY);
         } else {
           // All phases complete - attach to external parent if specified
-          if (state.parent_pi) {
-            await attachToExternalParent(discoveryState, this.env, state.parent_pi);
+          // (saved right away, so status reports an attach error and a
+          // retry of the steps below doesn't attach twice)
+          if (batch.parent_pi && !discoveryState.parent_attached) {
+            await attachToExternalParent(discoveryState, this.env, batch.parent_pi);
+            this.store.putDiscoveryState(discoveryState);
           }
 
           // Discovery complete!
-          state.root_pi = discoveryState.node_pis['/'];
-          state.status = 'preprocessing';
-          await this.ctx.storage.put('state', state);
+          batch.root_pi = discoveryState.node_pis['/'];
 
-          // Enqueue to preprocessor
-          await this.enqueueToPreprocessor(state, discoveryState);
+          // Enqueue to preprocessor (before leaving 'discovery' so a failed
+          // send is retried by the next alarm)
+          await this.enqueueToPreprocessor(batch, discoveryState);
 
-          console.log(`[Discovery] Complete, root_pi: ${state.root_pi}`);
+          batch.status = 'preprocessing';
+          this.store.putBatch(batch);
+          await this.onStatusChanged(batch, 'discovery');
+          await this.queueWebhook(batch, 'discovery_completed', {
+            root_pi: batch.root_pi,
+            discovery_outcome: discoveryState.outcome,
+          });
+
+          console.log(
+            `[Discovery] Complete (${discoveryState.outcome}), root_pi: ${batch.root_pi}`
+          );
         }
-      } else if (discoveryState.phase === 'DONE') {
-        // Already done, nothing to do
-        console.log('[Discovery] Alarm called but phase is DONE, ignoring');
       }
     } catch (error: any) {
       console.error('[Discovery] Alarm error:', error);
@@ -287,16 +1103,22 @@ export class BatchStateObject extends DurableObject<Env> {
       if (discoveryState.retry_count < DISCOVERY_MAX_RETRIES) {
         // Retry with exponential backoff
         const delay = Math.min(30000, 1000 * Math.pow(2, discoveryState.retry_count));
-        await this.ctx.storage.put('state', state);
-        await this.ctx.storage.setAlarm(Date.now() + delay);
+        this.store.putDiscoveryState(discoveryState);
+        await this.scheduleAlarm('discovery', Date.now() + delay);
         console.log(
           `[Discovery] Retry ${discoveryState.retry_count}/${DISCOVERY_MAX_RETRIES} scheduled in ${delay}ms`
         );
       } else {
         // Max retries exceeded
-        state.status = 'failed';
+        batch.status = 'failed';
+        discoveryState.failed_phase = discoveryState.phase;
         discoveryState.phase = 'ERROR';
-        await this.ctx.storage.put('state', state);
+        this.ctx.storage.transactionSync(() => {
+          this.store.putDiscoveryState(discoveryState);
+          this.store.putBatch(batch);
+        });
+        await this.onStatusChanged(batch, 'discovery');
+        this.broadcastDiscoveryProgress(batch.batch_id, discoveryState);
         console.error(`[Discovery] Failed after ${DISCOVERY_MAX_RETRIES} retries`);
       }
     }
@@ -306,7 +1128,7 @@ export class BatchStateObject extends DurableObject<Env> {
    * Enqueue to preprocessor after discovery completes
    */
   private async enqueueToPreprocessor(
-    state: BatchState,
+    state: BatchRecord,
     discoveryState: DiscoveryState
   ): Promise<void> {
     const manifest = await this.ctx.storage.get<BatchManifest>('manifest');
@@ -320,6 +1142,7 @@ export class BatchStateObject extends DurableObject<Env> {
     }
 
     const queueMessage: PreprocessorQueueMessage = {
+      schema_version: QUEUE_SCHEMA_VERSION,
       batch_id: state.batch_id,
       manifest_r2_key: `staging/${state.batch_id}/_manifest.json`,
       r2_prefix: `staging/${state.batch_id}/`,
@@ -340,7 +1163,13 @@ export class BatchStateObject extends DurableObject<Env> {
       node_versions: discoveryState.node_versions,
     };
 
-    await this.env.PREPROCESS_QUEUE.send(queueMessage);
+    await sendQueueMessage(
+      this.env.PREPROCESS_QUEUE,
+      this.env.STAGING_BUCKET,
+      'preprocess',
+      queueMessage,
+      preprocessorQueueMessageSchema
+    );
     console.log(`[Discovery] Enqueued to preprocessor: ${state.batch_id}`);
   }
 
@@ -349,10 +1178,10 @@ export class BatchStateObject extends DurableObject<Env> {
    * Called after runSyncDiscovery completes in the finalize handler
    */
   async setDiscoveryResults(results: DiscoveryResult): Promise<void> {
-    const state = await this.ctx.storage.get<BatchState>('state');
-    if (state) {
-      state.root_pi = results.root_pi;
-      state.discovery_state = {
+    const batch = this.store.getBatch();
+    if (batch) {
+      batch.root_pi = results.root_pi;
+      const discoveryState: DiscoveryState = {
         nodes: {},
         directories_total: Object.keys(results.node_pis).length,
         directories_published: Object.keys(results.node_pis).length,
@@ -365,8 +1194,28 @@ export class BatchStateObject extends DurableObject<Env> {
         files_uploaded: 0,
         chunks_total: 0,
         chunks_uploaded: 0,
+        errors: results.errors,
+        outcome: results.outcome,
       };
-      await this.ctx.storage.put('state', state);
+      this.ctx.storage.transactionSync(() => {
+        this.store.putDiscoveryState(discoveryState);
+        this.store.putBatch(batch);
+      });
     }
   }
 }
+
+/**
+ * Progress counters reported in discovery events
+ */
+function toDiscoveryProgress(state: DiscoveryState): DiscoveryProgress {
+  return {
+    phase: state.phase,
+    directories_total: state.directories_total,
+    directories_published: state.directories_published,
+    files_total: state.files_total,
+    files_uploaded: state.files_uploaded,
+    chunks_total: state.chunks_total,
+    chunks_uploaded: state.chunks_uploaded,
+  };
+}
@@ -0,0 +1,106 @@
+/**
+ * UploaderIndexObject Durable Object
+ * Per-uploader index of batches, so "what has this user uploaded?" can be
+ * answered without visiting every BatchStateObject
+ *
+ * One instance per uploader (idFromName(uploader)). BatchStateObject
+ * upserts its entry on init and on every status change. Each entry keeps
+ * the batch owner (created_by) so listings can apply the same ownership
+ * rule as the batch routes.
+ */
+
+import { DurableObject } from 'cloudflare:workers';
+import type { BatchIndexEntry, BatchStatus, Env } from '../types';
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS batches (
+    batch_id TEXT PRIMARY KEY,
+    status TEXT NOT NULL,
+    created_by TEXT,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS batches_by_status ON batches (status, batch_id);
+`;
+
+export class UploaderIndexObject extends DurableObject<Env> {
+  constructor(ctx: DurableObjectState, env: Env) {
+    super(ctx, env);
+    ctx.blockConcurrencyWhile(async () => {
+      ctx.storage.sql.exec(SCHEMA);
+    });
+  }
+
+  /**
+   * Insert or update a batch entry
+   * Updates older than the stored entry are ignored, so out-of-order
+   * calls can't roll a batch back to an earlier status
+   */
+  async upsertBatch(entry: BatchIndexEntry, createdBy: string | undefined): Promise<void> {
+    const existing = this.ctx.storage.sql
+      .exec<{ data: string }>('SELECT data FROM batches WHERE batch_id = ?', entry.batch_id)
+      .toArray()[0];
+    if (existing) {
+      const current: BatchIndexEntry = JSON.parse(existing.data);
+      if (current.updated_at > entry.updated_at) {
+        return;
+      }
+    }
+
+    this.ctx.storage.sql.exec(
+      'INSERT OR REPLACE INTO batches (batch_id, status, created_by, data) VALUES (?, ?, ?, ?)',
+      entry.batch_id,
+      entry.status,
+      createdBy ?? null,
+      JSON.stringify(entry)
+    );
+  }
+
+  /**
+   * List batches newest first (batch IDs are ULIDs, so they sort by creation time)
+   * Only batches without an owner and those owned by userId are included.
+   * cursor is the last batch_id of the previous page
+   */
+  async listBatches(options: {
+    userId?: string;
+    status?: BatchStatus;
+    cursor?: string;
+    limit: number;
+  }): Promise<{ batches: BatchIndexEntry[]; next_cursor?: string }> {
+    const conditions: string[] = [];
+    const params: string[] = [];
+    if (options.userId) {
+      conditions.push('(created_by IS NULL OR created_by = ?)');
+      params.push(options.userId);
+    } else {
+      conditions.push('created_by IS NULL');
+    }
+    if (options.status) {
+      conditions.push('status = ?');
+      params.push(options.status);
+    }
+    if (options.cursor) {
+      conditions.push('batch_id < ?');
+      params.push(options.cursor);
+    }
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    // Fetch one extra row to know whether another page exists
+    const rows = this.ctx.storage.sql
+      .exec<{ data: string }>(
+        `SELECT data FROM batches ${where} ORDER BY batch_id DESC LIMIT ?`,
+        ...params,
+        options.limit + 1
+      )
+      .toArray();
+
+    const batches: BatchIndexEntry[] = rows
+      .slice(0, options.limit)
+      .map((row) => JSON.parse(row.data));
+    const hasMore = rows.length > options.limit;
+
+    return {
+      batches,
+      next_cursor: hasMore ? batches[batches.length - 1]!.batch_id : undefined,
+    };
+  }
+}
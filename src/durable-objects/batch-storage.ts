@@ -0,0 +1,437 @@
+/**
+ * SQLite-backed storage for BatchStateObject
+ *
+ * Batch metadata, files and discovery nodes live in separate tables so
+ * per-file and per-node updates write a single row instead of rewriting
+ * the whole batch. Files are indexed by r2_key and logical_path.
+ *
+ * Batches created before this layout stored everything in the 'state'
+ * KV key; migrateLegacyState() moves them over on first access.
+ */
+
+import type {
+  BatchState,
+  FileState,
+  DiscoveryState,
+  DiscoveryNode,
+  WebhookDelivery,
+  PIProcessingState,
+  PIProcessingStatus,
+} from '../types';
+
+/**
+ * Batch-level fields (everything except the file list and discovery state)
+ */
+export type BatchRecord = Omit<BatchState, 'files' | 'discovery_state'>;
+
+/**
+ * Discovery-level fields (everything except the per-directory nodes)
+ */
+export type DiscoveryRecord = Omit<DiscoveryState, 'nodes'>;
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS batch (
+    id INTEGER PRIMARY KEY CHECK (id = 1),
+    data TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS files (
+    seq INTEGER PRIMARY KEY AUTOINCREMENT,
+    r2_key TEXT NOT NULL UNIQUE,
+    logical_path TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS files_by_logical_path ON files (logical_path);
+
+  CREATE TABLE IF NOT EXISTS original_files (
+    seq INTEGER PRIMARY KEY,
+    r2_key TEXT NOT NULL UNIQUE,
+    data TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS discovery (
+    id INTEGER PRIMARY KEY CHECK (id = 1),
+    data TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS discovery_nodes (
+    path TEXT PRIMARY KEY,
+    data TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS webhook_deliveries (
+    seq INTEGER PRIMARY KEY AUTOINCREMENT,
+    id TEXT NOT NULL UNIQUE,
+    status TEXT NOT NULL,
+    next_attempt_at INTEGER,
+    data TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS request_signatures (
+    signature TEXT PRIMARY KEY,
+    expires_at INTEGER NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS processing_pis (
+    pi TEXT PRIMARY KEY,
+    status TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+`;
+
+export class BatchStorage {
+  /**
+   * Last serialized form of each discovery node read or written,
+   * used to write back only the nodes that changed
+   */
+  private nodeCache = new Map<string, string>();
+
+  constructor(private storage: DurableObjectStorage) {}
+
+  /**
+   * Create tables if they don't exist yet
+   */
+  ensureSchema(): void {
+    this.storage.sql.exec(SCHEMA);
+  }
+
+  /**
+   * Move a batch stored in the old single 'state' KV key into the tables
+   */
+  async migrateLegacyState(): Promise<void> {
+    const legacy = await this.storage.get<BatchState>('state');
+    if (!legacy) {
+      return;
+    }
+
+    if (!this.getBatch()) {
+      this.putState(legacy);
+      console.log(
+        `[Storage] Migrated batch ${legacy.batch_id} (${legacy.files.length} files) to SQLite`
+      );
+    }
+
+    await this.storage.delete('state');
+  }
+
+  /**
+   * Forget cached rows (after deleteAll)
+   */
+  reset(): void {
+    this.nodeCache.clear();
+    this.ensureSchema();
+  }
+
+  // ==========================================================================
+  // Full state (assembled from all tables)
+  // ==========================================================================
+
+  getState(): BatchState | null {
+    const batch = this.getBatch();
+    if (!batch) {
+      return null;
+    }
+
+    return {
+      ...batch,
+      files: this.listFiles(),
+      discovery_state: this.getDiscoveryState(),
+    };
+  }
+
+  putState(state: BatchState): void {
+    const { files, discovery_state, ...batch } = state;
+    this.storage.transactionSync(() => {
+      this.putBatch(batch);
+      this.replaceFiles(files);
+      if (discovery_state) {
+        this.putDiscoveryState(discovery_state);
+      }
+    });
+  }
+
+  // ==========================================================================
+  // Batch
+  // ==========================================================================
+
+  getBatch(): BatchRecord | null {
+    const row = this.storage.sql
+      .exec<{ data: string }>('SELECT data FROM batch WHERE id = 1')
+      .toArray()[0];
+    return row ? JSON.parse(row.data) : null;
+  }
+
+  putBatch(batch: BatchRecord): void {
+    this.storage.sql.exec(
+      'INSERT OR REPLACE INTO batch (id, data) VALUES (1, ?)',
+      JSON.stringify(batch)
+    );
+  }
+
+  // ==========================================================================
+  // Files
+  // ==========================================================================
+
+  getFile(r2Key: string): FileState | null {
+    const row = this.storage.sql
+      .exec<{ data: string }>('SELECT data FROM files WHERE r2_key = ?', r2Key)
+      .toArray()[0];
+    return row ? JSON.parse(row.data) : null;
+  }
+
+  getFileByLogicalPath(logicalPath: string): FileState | null {
+    const row = this.storage.sql
+      .exec<{ data: string }>('SELECT data FROM files WHERE logical_path = ?', logicalPath)
+      .toArray()[0];
+    return row ? JSON.parse(row.data) : null;
+  }
+
+  /**
+   * All files, in the order they were added
+   */
+  listFiles(): FileState[] {
+    return this.storage.sql
+      .exec<{ data: string }>('SELECT data FROM files ORDER BY seq')
+      .toArray()
+      .map((row) => JSON.parse(row.data));
+  }
+
+  /**
+   * Completed file count and bytes, without loading the file list
+   */
+  getUploadProgress(): { files_uploaded: number; total_bytes_uploaded: number } {
+    return this.storage.sql
+      .exec<{ files_uploaded: number; total_bytes_uploaded: number }>(
+        `SELECT COUNT(*) AS files_uploaded,
+                COALESCE(SUM(json_extract(data, '$.file_size')), 0) AS total_bytes_uploaded
+         FROM files WHERE json_extract(data, '$.status') = 'completed'`
+      )
+      .one();
+  }
+
+  /**
+   * Insert or update a file (keyed by r2_key, keeps original position)
+   */
+  putFile(file: FileState): void {
+    this.storage.sql.exec(
+      `INSERT INTO files (r2_key, logical_path, data) VALUES (?, ?, ?)
+       ON CONFLICT (r2_key) DO UPDATE SET logical_path = excluded.logical_path, data = excluded.data`,
+      file.r2_key,
+      file.logical_path,
+      JSON.stringify(file)
+    );
+  }
+
+  deleteFile(r2Key: string): void {
+    this.storage.sql.exec('DELETE FROM files WHERE r2_key = ?', r2Key);
+  }
+
+  /**
+   * Files as uploaded, before the preprocessor replaced them
+   * (the current file list if it hasn't been replaced yet)
+   */
+  listOriginalFiles(): FileState[] {
+    const rows = this.storage.sql
+      .exec<{ data: string }>('SELECT data FROM original_files ORDER BY seq')
+      .toArray();
+    return rows.length > 0 ? rows.map((row) => JSON.parse(row.data)) : this.listFiles();
+  }
+
+  /**
+   * Snapshot the uploaded file list (first call only - later
+   * replacements keep the original snapshot)
+   */
+  saveOriginalFiles(): void {
+    const saved = this.storage.sql
+      .exec<{ count: number }>('SELECT COUNT(*) AS count FROM original_files')
+      .one();
+    if (saved.count === 0) {
+      this.storage.sql.exec(
+        'INSERT INTO original_files (seq, r2_key, data) SELECT seq, r2_key, data FROM files'
+      );
+    }
+  }
+
+  replaceFiles(files: FileState[]): void {
+    this.storage.transactionSync(() => {
+      this.storage.sql.exec('DELETE FROM files');
+      for (const file of files) {
+        this.putFile(file);
+      }
+    });
+  }
+
+  // ==========================================================================
+  // Discovery
+  // ==========================================================================
+
+  /**
+   * Discovery state without the per-directory nodes
+   * (counters, phase and the node_pis map)
+   */
+  getDiscoveryRecord(): DiscoveryRecord | undefined {
+    const row = this.storage.sql
+      .exec<{ data: string }>('SELECT data FROM discovery WHERE id = 1')
+      .toArray()[0];
+    return row ? JSON.parse(row.data) : undefined;
+  }
+
+  getDiscoveryState(): DiscoveryState | undefined {
+    const record = this.getDiscoveryRecord();
+    if (!record) {
+      return undefined;
+    }
+
+    const nodes: Record<string, DiscoveryNode> = {};
+    for (const nodeRow of this.storage.sql.exec<{ path: string; data: string }>(
+      'SELECT path, data FROM discovery_nodes'
+    )) {
+      nodes[nodeRow.path] = JSON.parse(nodeRow.data);
+      this.nodeCache.set(nodeRow.path, nodeRow.data);
+    }
+
+    return { ...record, nodes };
+  }
+
+  /**
+   * Save discovery state, writing only the nodes that changed
+   * since they were last read or written
+   */
+  putDiscoveryState(state: DiscoveryState): void {
+    const { nodes, ...record } = state;
+    this.storage.transactionSync(() => {
+      this.storage.sql.exec(
+        'INSERT OR REPLACE INTO discovery (id, data) VALUES (1, ?)',
+        JSON.stringify(record)
+      );
+      this.putDiscoveryNodes(Object.values(nodes));
+    });
+  }
+
+  /**
+   * Save individual discovery nodes (skips unchanged ones)
+   */
+  putDiscoveryNodes(nodes: DiscoveryNode[]): void {
+    for (const node of nodes) {
+      const data = JSON.stringify(node);
+      if (this.nodeCache.get(node.path) === data) {
+        continue;
+      }
+      this.storage.sql.exec(
+        'INSERT OR REPLACE INTO discovery_nodes (path, data) VALUES (?, ?)',
+        node.path,
+        data
+      );
+      this.nodeCache.set(node.path, data);
+    }
+  }
+
+  // ==========================================================================
+  // Webhook deliveries
+  // ==========================================================================
+
+  /**
+   * All deliveries, oldest first
+   */
+  listWebhookDeliveries(): WebhookDelivery[] {
+    return this.storage.sql
+      .exec<{ data: string }>('SELECT data FROM webhook_deliveries ORDER BY seq')
+      .toArray()
+      .map((row) => JSON.parse(row.data));
+  }
+
+  /**
+   * Pending deliveries whose next attempt is due
+   */
+  listDueWebhookDeliveries(now: number): WebhookDelivery[] {
+    return this.storage.sql
+      .exec<{ data: string }>(
+        `SELECT data FROM webhook_deliveries
+         WHERE status = 'pending' AND next_attempt_at <= ? ORDER BY seq`,
+        now
+      )
+      .toArray()
+      .map((row) => JSON.parse(row.data));
+  }
+
+  /**
+   * Earliest next attempt (epoch ms) among pending deliveries
+   */
+  getNextWebhookAttempt(): number | null {
+    const row = this.storage.sql
+      .exec<{ next: number | null }>(
+        "SELECT MIN(next_attempt_at) AS next FROM webhook_deliveries WHERE status = 'pending'"
+      )
+      .one();
+    return row.next;
+  }
+
+  /**
+   * Insert or update a delivery (keyed by id)
+   */
+  putWebhookDelivery(delivery: WebhookDelivery): void {
+    this.storage.sql.exec(
+      `INSERT INTO webhook_deliveries (id, status, next_attempt_at, data) VALUES (?, ?, ?, ?)
+       ON CONFLICT (id) DO UPDATE SET status = excluded.status,
+         next_attempt_at = excluded.next_attempt_at, data = excluded.data`,
+      delivery.id,
+      delivery.status,
+      delivery.next_attempt_at ? Date.parse(delivery.next_attempt_at) : null,
+      JSON.stringify(delivery)
+    );
+  }
+
+  // ==========================================================================
+  // Orchestrator progress (per PI)
+  // ==========================================================================
+
+  putProcessingPi(state: PIProcessingState): void {
+    this.storage.sql.exec(
+      'INSERT OR REPLACE INTO processing_pis (pi, status, data) VALUES (?, ?, ?)',
+      state.pi,
+      state.status,
+      JSON.stringify(state)
+    );
+  }
+
+  /**
+   * PIs currently in one status
+   */
+  listProcessingPis(status: PIProcessingStatus): PIProcessingState[] {
+    return this.storage.sql
+      .exec<{ data: string }>('SELECT data FROM processing_pis WHERE status = ? ORDER BY pi', status)
+      .toArray()
+      .map((row) => JSON.parse(row.data));
+  }
+
+  /**
+   * Number of PIs reported in each status
+   */
+  countProcessingPis(): Record<PIProcessingStatus, number> {
+    const counts: Record<PIProcessingStatus, number> = { processing: 0, completed: 0, failed: 0 };
+    for (const row of this.storage.sql.exec<{ status: PIProcessingStatus; count: number }>(
+      'SELECT status, COUNT(*) AS count FROM processing_pis GROUP BY status'
+    )) {
+      counts[row.status] = row.count;
+    }
+    return counts;
+  }
+
+  // ==========================================================================
+  // Service request signatures (replay protection)
+  // ==========================================================================
+
+  /**
+   * Record a signature as used
+   * Returns false if it was already recorded (a replayed request)
+   */
+  claimSignature(signature: string, expiresAt: number): boolean {
+    this.storage.sql.exec('DELETE FROM request_signatures WHERE expires_at < ?', Date.now());
+    const inserted = this.storage.sql.exec(
+      'INSERT OR IGNORE INTO request_signatures (signature, expires_at) VALUES (?, ?)',
+      signature,
+      expiresAt
+    );
+    return inserted.rowsWritten > 0;
+  }
+}
@@ -0,0 +1,44 @@
+/**
+ * POST /api/batches/:batchId/abort
+ * Abort a batch: move it to the terminal 'aborted' status, then cancel
+ * outstanding multipart uploads and delete staged objects in the background
+ */
+
+import type { Context } from 'hono';
+import type { Env, AbortBatchResponse } from '../types';
+import { getBatchStateStub } from '../lib/durable-object-helpers';
+import { getIncompleteUploads } from '../lib/r2-cleanup';
+
+export async function handleAbortBatch(
+  c: Context<{ Bindings: Env }>
+): Promise<Response> {
+  try {
+    const batchId = c.req.param('batchId');
+
+    // Mark batch aborted so no new files can be started; the Durable
+    // Object then cleans up R2 from its alarm (safe to repeat)
+    const stub = getBatchStateStub(c.env.BATCH_STATE_DO, batchId);
+    const { state } = await stub.abortBatch();
+
+    const response: AbortBatchResponse = {
+      batch_id: batchId,
+      status: 'aborted',
+      uploads_to_abort: getIncompleteUploads(state.files).length,
+    };
+    return c.json(response, 200);
+  } catch (error) {
+    console.error('Error aborting batch:', error);
+
+    // Handle specific errors
+    if (error instanceof Error) {
+      if (error.message === 'Batch not found') {
+        return c.json({ error: error.message }, 404);
+      }
+      if (error.message.startsWith('Batch status is')) {
+        return c.json({ error: error.message }, 400);
+      }
+    }
+
+    return c.json({ error: 'Internal server error' }, 500);
+  }
+}
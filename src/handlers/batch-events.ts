@@ -0,0 +1,31 @@
+/**
+ * GET /api/batches/:batchId/events
+ * Live batch progress over a WebSocket
+ *
+ * The connection is handed to the batch's Durable Object, which sends a
+ * snapshot on connect and then pushes file_completed, status_changed and
+ * discovery_progress events as they happen.
+ */
+
+import type { Context } from 'hono';
+import type { Env } from '../types';
+import { getBatchStateStub } from '../lib/durable-object-helpers';
+
+export async function handleBatchEvents(
+  c: Context<{ Bindings: Env }>
+): Promise<Response> {
+  try {
+    const batchId = c.req.param('batchId');
+
+    if (c.req.header('Upgrade')?.toLowerCase() !== 'websocket') {
+      return c.json({ error: 'Expected WebSocket upgrade' }, 426);
+    }
+
+    // The Durable Object accepts the socket (hibernatable) and checks the batch exists
+    const stub = getBatchStateStub(c.env.BATCH_STATE_DO, batchId);
+    return await stub.fetch(c.req.raw);
+  } catch (error) {
+    console.error('Error opening batch event stream:', error);
+    return c.json({ error: 'Internal server error' }, 500);
+  }
+}
@@ -0,0 +1,149 @@
+/**
+ * POST /api/batches/:batchId/files/complete-bulk
+ * Complete many file uploads in one call
+ *
+ * Each item is completed and verified in R2 independently (per-item errors
+ * are reported, not fatal), then all verified files are marked completed
+ * in a single Durable Object write.
+ */
+
+import type { Context } from 'hono';
+import type {
+  Env,
+  BulkCompleteFileUploadRequest,
+  BulkCompleteFileUploadResponse,
+  BulkCompleteFileResult,
+  CompletedPart,
+  FileState,
+} from '../types';
+import { BULK_MAX_FILES } from '../types';
+import { getBatchStateStub } from '../lib/durable-object-helpers';
+import { finishFileUpload } from '../lib/file-upload';
+
+export async function handleBulkCompleteFileUpload(
+  c: Context<{ Bindings: Env }>
+): Promise<Response> {
+  try {
+    const batchId = c.req.param('batchId');
+    const body = await c.req.json<BulkCompleteFileUploadRequest>();
+
+    // Validate request
+    if (!body.files || !Array.isArray(body.files)) {
+      return c.json({ error: 'Missing or invalid files array' }, 400);
+    }
+
+    if (body.files.length === 0) {
+      return c.json({ error: 'Files array cannot be empty' }, 400);
+    }
+
+    if (body.files.length > BULK_MAX_FILES) {
+      return c.json({ error: `Too many files (maximum ${BULK_MAX_FILES} per call)` }, 400);
+    }
+
+    // Look up only the requested files in the Durable Object
+    const stub = getBatchStateStub(c.env.BATCH_STATE_DO, batchId);
+    const requestedKeys = body.files
+      .map((item) => item?.r2_key)
+      .filter((key): key is string => typeof key === 'string');
+    const files: FileState[] = await stub.getFiles(requestedKeys);
+
+    const filesByKey = new Map<string, FileState>(
+      files.map((f) => [f.r2_key, f])
+    );
+
+    const results: BulkCompleteFileResult[] = [];
+    const verified: Array<{
+      index: number;
+      r2_key: string;
+      upload_id?: string;
+      parts?: CompletedPart[];
+      verification: { checksum_sha256?: string };
+    }> = [];
+
+    // Complete and verify each upload in R2 (in parallel within the call)
+    const seenKeys = new Set<string>();
+    await Promise.all(
+      body.files.map(async (item, index) => {
+        if (!item?.r2_key || typeof item.r2_key !== 'string') {
+          results.push({ index, success: false, error: 'Missing or invalid r2_key' });
+          return;
+        }
+
+        if (seenKeys.has(item.r2_key)) {
+          results.push({ index, r2_key: item.r2_key, success: false, error: 'Duplicate r2_key in request' });
+          return;
+        }
+        seenKeys.add(item.r2_key);
+
+        const file = filesByKey.get(item.r2_key);
+        if (!file) {
+          results.push({ index, r2_key: item.r2_key, success: false, error: 'File not found in batch' });
+          return;
+        }
+
+        if (file.status === 'completed') {
+          // Already completed - idempotent
+          results.push({ index, r2_key: item.r2_key, success: true });
+          return;
+        }
+
+        try {
+          const check = await finishFileUpload(c.env, file, item);
+          if (!check.ok) {
+            results.push({ index, r2_key: item.r2_key, success: false, error: check.error });
+            return;
+          }
+          verified.push({
+            index,
+            r2_key: item.r2_key,
+            upload_id: item.upload_id,
+            parts: item.parts,
+            verification: { checksum_sha256: check.checksum_sha256 },
+          });
+        } catch (error) {
+          console.error(`[Bulk] Failed to complete upload for ${item.r2_key}:`, error);
+          results.push({ index, r2_key: item.r2_key, success: false, error: 'Failed to complete upload' });
+        }
+      })
+    );
+
+    // Mark all verified files completed in one atomic write
+    if (verified.length > 0) {
+      const stateResults = await stub.completeFiles(verified);
+      stateResults.forEach((result: { r2_key: string; error?: string }, i: number) => {
+        const { index } = verified[i]!;
+        results.push(
+          result.error
+            ? { index, r2_key: result.r2_key, success: false, error: result.error }
+            : { index, r2_key: result.r2_key, success: true }
+        );
+      });
+    }
+
+    results.sort((a, b) => a.index - b.index);
+
+    const completed = results.filter((r) => r.success).length;
+    const response: BulkCompleteFileUploadResponse = {
+      completed,
+      failed: results.length - completed,
+      results,
+    };
+
+    console.log(`[Bulk] Completed ${response.completed} uploads (${response.failed} failed) for batch ${batchId}`);
+
+    return c.json(response, 200);
+  } catch (error) {
+    console.error('Error completing bulk file upload:', error);
+
+    if (error instanceof Error) {
+      if (error.message === 'Batch not found') {
+        return c.json({ error: error.message }, 404);
+      }
+      if (error.message.startsWith('Batch status is')) {
+        return c.json({ error: error.message }, 400);
+      }
+    }
+
+    return c.json({ error: 'Internal server error' }, 500);
+  }
+}
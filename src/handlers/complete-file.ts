@@ -1,6 +1,9 @@
 /**
  * POST /api/batches/:batchId/files/complete
  * Mark a file upload as complete
+ *
+ * The uploaded object is verified against R2 (existence, size and any
+ * declared SHA-256) before the file is marked completed.
  */
 
 import type { Context } from 'hono';
@@ -8,8 +11,10 @@ import type {
   Env,
   CompleteFileUploadRequest,
   CompleteFileUploadResponse,
+  FileState,
 } from '../types';
 import { getBatchStateStub } from '../lib/durable-object-helpers';
+import { finishFileUpload } from '../lib/file-upload';
 
 export async function handleCompleteFileUpload(
   c: Context<{ Bindings: Env }>
@@ -25,26 +30,26 @@ export async function handleCompleteFileUpload(
       return c.json({ error: 'Missing or invalid r2_key' }, 400);
     }
 
-    // Atomically update file status in batch state (NO race conditions with DO!)
     const stub = getBatchStateStub(c.env.BATCH_STATE_DO, batchId);
-    const result = await stub.completeFile(r2_key, upload_id, parts);
-
-    // Complete multipart upload in R2 (outside the state update)
-    if (result.needsMultipartComplete && upload_id && parts) {
-      const multipartUpload = c.env.STAGING_BUCKET.resumeMultipartUpload(
-        r2_key,
-        upload_id
-      );
+    const file: FileState = await stub.getFile(r2_key);
 
-      // Convert part_number to partNumber for R2 API
-      const r2Parts = parts.map((part) => ({
-        partNumber: part.part_number,
-        etag: part.etag,
-      }));
+    if (file.status === 'completed') {
+      // Already completed - idempotent
+      const response: CompleteFileUploadResponse = { success: true };
+      return c.json(response, 200);
+    }
 
-      await multipartUpload.complete(r2Parts);
+    // Complete in R2 and verify the object R2 actually has
+    const check = await finishFileUpload(c.env, file, body);
+    if (!check.ok) {
+      return c.json({ error: check.error }, 400);
     }
 
+    // Atomically update file status in batch state (NO race conditions with DO!)
+    await stub.completeFile(r2_key, upload_id, parts, {
+      checksum_sha256: check.checksum_sha256,
+    });
+
     const response: CompleteFileUploadResponse = { success: true };
     return c.json(response, 200);
   } catch (error) {
@@ -55,7 +60,11 @@ export async function handleCompleteFileUpload(
       if (error.message === 'File not found in batch' || error.message === 'Batch not found') {
         return c.json({ error: error.message }, 404);
       }
-      if (error.message.includes('upload_id') || error.message.includes('parts')) {
+      if (
+        error.message.includes('upload_id') ||
+        error.message.includes('parts') ||
+        error.message.startsWith('Batch status is')
+      ) {
         return c.json({ error: error.message }, 400);
       }
     }
@@ -0,0 +1,66 @@
+/**
+ * DELETE /api/batches/:batchId/files
+ * Cancel a single file upload and remove it from the batch
+ */
+
+import type { Context } from 'hono';
+import type {
+  Env,
+  DeleteFileRequest,
+  DeleteFileResponse,
+  FileState,
+} from '../types';
+import { getBatchStateStub } from '../lib/durable-object-helpers';
+import { abortMultipartUpload } from '../lib/r2-cleanup';
+
+export async function handleDeleteFile(
+  c: Context<{ Bindings: Env }>
+): Promise<Response> {
+  try {
+    const batchId = c.req.param('batchId');
+    const body = await c.req.json<DeleteFileRequest>();
+
+    const { r2_key } = body;
+
+    // Validate request
+    if (!r2_key || typeof r2_key !== 'string') {
+      return c.json({ error: 'Missing or invalid r2_key' }, 400);
+    }
+
+    // Atomically remove file from batch state before touching R2,
+    // so a concurrent complete cannot resurrect it
+    const stub = getBatchStateStub(c.env.BATCH_STATE_DO, batchId);
+    const file: FileState = await stub.removeFile(r2_key);
+
+    // Abort outstanding multipart upload (if any)
+    let uploadAborted = false;
+    if (file.upload_type === 'multipart' && file.status !== 'completed' && file.upload_id) {
+      await abortMultipartUpload(c.env.STAGING_BUCKET, file.r2_key, file.upload_id);
+      uploadAborted = true;
+    }
+
+    // Delete staged object (no-op if the client never uploaded it)
+    await c.env.STAGING_BUCKET.delete(file.r2_key);
+
+    const response: DeleteFileResponse = {
+      success: true,
+      r2_key: file.r2_key,
+      upload_aborted: uploadAborted,
+    };
+    return c.json(response, 200);
+  } catch (error) {
+    console.error('Error deleting file:', error);
+
+    // Handle specific errors
+    if (error instanceof Error) {
+      if (error.message === 'File not found in batch' || error.message === 'Batch not found') {
+        return c.json({ error: error.message }, 404);
+      }
+      if (error.message.startsWith('Batch status is')) {
+        return c.json({ error: error.message }, 400);
+      }
+    }
+
+    return c.json({ error: 'Internal server error' }, 500);
+  }
+}
@@ -3,6 +3,8 @@
  * Called by Cloud Run preprocessor after completing file transformations
  * Updates batch with processed files and enqueues to BATCH_QUEUE
  *
+ * Requests must be signed with PREPROCESSOR_SECRET (see lib/service-auth.ts)
+ *
  * NEW: Builds PI tree for simplified orchestrator architecture
  */
 
@@ -16,15 +18,34 @@ import type {
   DirectoryGroup,
   BatchManifest,
   ProcessingConfig,
+  FileState,
 } from '../types';
+import { QUEUE_SCHEMA_VERSION } from '../types';
 import { getBatchStateStub } from '../lib/durable-object-helpers';
+import { authenticateServiceRequest, claimServiceRequest } from '../lib/service-auth';
+import { validateProcessedOutput } from '../lib/processed-output';
+import { sendQueueMessage } from '../lib/queue';
+import { batchQueueMessageSchema } from '../schemas/queue-messages';
 
 export async function handleEnqueueProcessed(
   c: Context<{ Bindings: Env }>
 ): Promise<Response> {
   try {
     const batchId = c.req.param('batchId');
-    const body = await c.req.json<EnqueueProcessedRequest>();
+
+    // Verify the signature over the raw body before parsing it
+    const rawBody = await c.req.text();
+    const authError = await authenticateServiceRequest(c, c.env.PREPROCESSOR_SECRET, rawBody);
+    if (authError) {
+      return c.json({ error: authError }, 401);
+    }
+
+    let body: EnqueueProcessedRequest;
+    try {
+      body = JSON.parse(rawBody);
+    } catch {
+      return c.json({ error: 'Invalid JSON body' }, 400);
+    }
 
     // Validate request
     if (!body.files || !Array.isArray(body.files)) {
@@ -53,6 +74,35 @@ export async function handleEnqueueProcessed(
       }, 400);
     }
 
+    // Entities were created by discovery - the preprocessor must pass them through unchanged
+    if (state.root_pi && body.root_pi !== state.root_pi) {
+      return c.json({
+        error: `root_pi ${body.root_pi} does not match batch root_pi ${state.root_pi}`,
+      }, 400);
+    }
+
+    // Check the output against what was uploaded before replacing anything
+    const originalFiles: FileState[] = await stub.getOriginalFiles();
+    const outputErrors = await validateProcessedOutput(
+      c.env.STAGING_BUCKET,
+      batchId,
+      originalFiles,
+      state.discovery_state?.node_pis ?? {},
+      body
+    );
+    if (outputErrors.length > 0) {
+      console.error(`[EnqueueProcessed] Rejected output for ${batchId}:`, outputErrors);
+      return c.json({
+        error: 'Invalid preprocessor output',
+        details: outputErrors,
+      }, 400);
+    }
+
+    const replayError = await claimServiceRequest(c, batchId);
+    if (replayError) {
+      return c.json({ error: replayError }, 401);
+    }
+
     // Replace entire file list with processed files (atomic operation)
     await stub.replaceFiles(body.files);
 
@@ -97,6 +147,7 @@ export async function handleEnqueueProcessed(
         file_size: file.file_size,
         content_type: file.content_type,
         ...(file.cid && { cid: file.cid }),
+        ...(file.derived_from && { derived_from: file.derived_from }),
       });
     }
 
@@ -128,6 +179,7 @@ export async function handleEnqueueProcessed(
 
     // Build simplified queue message for orchestrator
     const queueMessage: QueueMessage = {
+      schema_version: QUEUE_SCHEMA_VERSION,
       batch_id: batchId,
       root_pi: body.root_pi,
       pis,
@@ -143,11 +195,17 @@ export async function handleEnqueueProcessed(
       has_custom_prompts: !!updatedState.custom_prompts,
     }, null, 2));
 
-    // Send to batch queue
-    await c.env.BATCH_QUEUE.send(queueMessage);
+    // Send to batch queue (offloaded to R2 if too large)
+    await sendQueueMessage(
+      c.env.BATCH_QUEUE,
+      c.env.STAGING_BUCKET,
+      'batch',
+      queueMessage,
+      batchQueueMessageSchema
+    );
 
     // Update batch status to enqueued
-    await stub.updateStatus('enqueued', new Date().toISOString());
+    await stub.updateStatus('enqueued', 'preprocessing', new Date().toISOString());
 
     // Return success response
     const response: EnqueueProcessedResponse = {
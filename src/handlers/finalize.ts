@@ -17,8 +17,11 @@ import type {
   DirectoryGroup,
   BatchManifest,
 } from '../types';
+import { QUEUE_SCHEMA_VERSION } from '../types';
 import { getBatchStateStub } from '../lib/durable-object-helpers';
 import { runSyncDiscovery } from '../services/initial-discovery';
+import { sendQueueMessage } from '../lib/queue';
+import { preprocessorQueueMessageSchema } from '../schemas/queue-messages';
 
 // Discovery configuration
 // Use async discovery if either threshold is exceeded
@@ -26,7 +29,7 @@ const SYNC_DISCOVERY_MAX_DIRS = 50; // Run sync if fewer directories
 const SYNC_DISCOVERY_MAX_TEXT_FILES = 100; // Run sync if fewer text files to upload
 
 // Text file extensions that get uploaded to IPFS during discovery
-const TEXT_EXTENSIONS = new Set(['md', 'txt', 'json', 'xml', 'csv', 'html', 'htm']);
+const TEXT_EXTENSIONS = new Set(['md', 'txt', 'json', 'jsonl', 'xml', 'csv', 'html', 'htm']);
 
 export async function handleFinalizeBatch(
   c: Context<{ Bindings: Env }>
@@ -50,6 +53,7 @@ export async function handleFinalizeBatch(
         total_bytes: state.files.reduce((sum: number, f: any) => sum + f.file_size, 0),
         r2_prefix: `staging/${batchId}/`,
         root_pi: state.root_pi,
+        discovery_outcome: state.discovery_state?.outcome,
       };
       return c.json(response, 200);
     }
@@ -191,9 +195,19 @@ export async function handleFinalizeBatch(
       // ================================================================
       // SYNC PATH: Run discovery inline, return root_pi immediately
       // ================================================================
+
+      // Leave 'uploading' before creating entities, so the batch can't be
+      // aborted or expire while discovery runs
+      await stub.updateStatus('discovery', 'uploading');
+
       let discoveryResult = null;
       try {
-        discoveryResult = await runSyncDiscovery(manifest, c.env, state.parent_pi);
+        discoveryResult = await runSyncDiscovery(
+          manifest,
+          c.env,
+          state.parent_pi,
+          state.chunking_config
+        );
         await stub.setDiscoveryResults(discoveryResult);
         console.log(`[Finalize] Sync discovery complete, root_pi: ${discoveryResult.root_pi}`);
       } catch (error) {
@@ -203,6 +217,8 @@ export async function handleFinalizeBatch(
 
       // If discovery failed, we can't proceed with preprocessing
       if (!discoveryResult) {
+        // Back to 'uploading' so finalize can be retried
+        await stub.updateStatus('uploading', 'discovery');
         return c.json({
           error: 'Discovery failed and is required for preprocessing',
         }, 500);
@@ -210,6 +226,7 @@ export async function handleFinalizeBatch(
 
       // Construct queue message with discovery results
       const queueMessage: PreprocessorQueueMessage = {
+        schema_version: QUEUE_SCHEMA_VERSION,
         batch_id: batchId,
         manifest_r2_key: manifestKey,
         r2_prefix: `staging/${batchId}/`,
@@ -246,15 +263,27 @@ export async function handleFinalizeBatch(
       );
 
       // Enqueue to preprocessor
-      await c.env.PREPROCESS_QUEUE.send(queueMessage);
+      try {
+        await sendQueueMessage(
+          c.env.PREPROCESS_QUEUE,
+          c.env.STAGING_BUCKET,
+          'preprocess',
+          queueMessage,
+          preprocessorQueueMessageSchema
+        );
+      } catch (error) {
+        await stub.updateStatus('uploading', 'discovery');
+        throw error;
+      }
 
       // Update batch state to preprocessing
-      await stub.updateStatus('preprocessing', new Date().toISOString());
+      await stub.updateStatus('preprocessing', 'discovery', new Date().toISOString());
 
       // Return response with root_pi
       const response: FinalizeBatchResponse = {
         batch_id: batchId,
         root_pi: discoveryResult?.root_pi,
+        discovery_outcome: discoveryResult.outcome,
         status: 'preprocessing',
         files_uploaded: state.files.length,
         total_bytes: totalBytes,
@@ -264,6 +293,10 @@ export async function handleFinalizeBatch(
       return c.json(response, 200);
     }
   } catch (error) {
+    // Aborted or expired since the state was read
+    if (error instanceof Error && error.message.startsWith('Batch status is')) {
+      return c.json({ error: error.message }, 400);
+    }
     console.error('Error finalizing batch:', error);
     return c.json({ error: 'Internal server error' }, 500);
   }
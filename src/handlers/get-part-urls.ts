@@ -0,0 +1,108 @@
+/**
+ * POST /api/batches/:batchId/files/parts
+ * Issue presigned URLs for a window of multipart upload parts
+ *
+ * files/start only signs the first PART_URL_WINDOW_SIZE parts; clients
+ * fetch later windows here as they go, so URLs are fresh when used.
+ */
+
+import type { Context } from 'hono';
+import type {
+  Env,
+  GetPartUrlsRequest,
+  GetPartUrlsResponse,
+  FileState,
+} from '../types';
+import { PART_URL_WINDOW_SIZE } from '../types';
+import { getBatchStateStub } from '../lib/durable-object-helpers';
+import { generatePresignedUrlsForParts } from '../lib/presigned';
+import { getFilePartSize, getFileTotalParts } from '../lib/multipart';
+
+export async function handleGetPartUrls(
+  c: Context<{ Bindings: Env }>
+): Promise<Response> {
+  try {
+    const batchId = c.req.param('batchId');
+    const body = await c.req.json<GetPartUrlsRequest>();
+
+    const { r2_key, start_part } = body;
+    const count = body.count ?? PART_URL_WINDOW_SIZE;
+
+    // Validate request
+    if (!r2_key || typeof r2_key !== 'string') {
+      return c.json({ error: 'Missing or invalid r2_key' }, 400);
+    }
+
+    if (!Number.isInteger(start_part) || start_part < 1) {
+      return c.json({ error: 'Invalid start_part (must be an integer >= 1)' }, 400);
+    }
+
+    if (!Number.isInteger(count) || count < 1 || count > PART_URL_WINDOW_SIZE) {
+      return c.json({
+        error: `Invalid count (must be an integer between 1 and ${PART_URL_WINDOW_SIZE})`,
+      }, 400);
+    }
+
+    // Get batch state from Durable Object
+    const stub = getBatchStateStub(c.env.BATCH_STATE_DO, batchId);
+    const state = await stub.getBatch();
+    if (!state) {
+      return c.json({ error: 'Batch not found' }, 404);
+    }
+
+    if (state.status !== 'uploading') {
+      return c.json({ error: `Batch status is ${state.status}, expected uploading` }, 400);
+    }
+
+    const file: FileState = await stub.getFile(r2_key);
+
+    if (file.upload_type !== 'multipart' || !file.upload_id) {
+      return c.json({ error: 'File is not a multipart upload' }, 400);
+    }
+
+    if (file.status === 'completed') {
+      return c.json({ error: 'File upload already completed' }, 400);
+    }
+
+    const partSize = getFilePartSize(file);
+    const totalParts = getFileTotalParts(file);
+
+    if (start_part > totalParts) {
+      return c.json({ error: `start_part ${start_part} exceeds total_parts ${totalParts}` }, 400);
+    }
+
+    // Sign the requested window (clamped to the last part)
+    const endPart = Math.min(totalParts, start_part + count - 1);
+    const partNumbers: number[] = [];
+    for (let partNumber = start_part; partNumber <= endPart; partNumber++) {
+      partNumbers.push(partNumber);
+    }
+
+    const presignedUrls = await generatePresignedUrlsForParts(
+      c.env,
+      file.r2_key,
+      file.upload_id,
+      partNumbers
+    );
+
+    const response: GetPartUrlsResponse = {
+      r2_key: file.r2_key,
+      upload_id: file.upload_id,
+      part_size: partSize,
+      total_parts: totalParts,
+      presigned_urls: presignedUrls,
+      ...(endPart < totalParts && { next_part: endPart + 1 }),
+    };
+
+    return c.json(response, 200);
+  } catch (error) {
+    console.error('Error issuing part URLs:', error);
+
+    // Handle specific errors
+    if (error instanceof Error && error.message === 'File not found in batch') {
+      return c.json({ error: error.message }, 404);
+    }
+
+    return c.json({ error: 'Internal server error' }, 500);
+  }
+}
@@ -0,0 +1,24 @@
+/**
+ * GET /api/schemas/:name
+ * Serve a queue message JSON Schema so consumers validate the same contract
+ */
+
+import type { Context } from 'hono';
+import type { Env } from '../types';
+import { QUEUE_SCHEMAS } from '../schemas/queue-messages';
+
+export async function handleGetSchema(
+  c: Context<{ Bindings: Env }>
+): Promise<Response> {
+  const name = c.req.param('name').replace(/\.json$/, '');
+  const schema = QUEUE_SCHEMAS[name];
+
+  if (!schema) {
+    return c.json(
+      { error: `Unknown schema: ${name}`, available: Object.keys(QUEUE_SCHEMAS) },
+      404
+    );
+  }
+
+  return c.json(schema, 200, { 'Content-Type': 'application/schema+json' });
+}
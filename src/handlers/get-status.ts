@@ -4,7 +4,7 @@
  */
 
 import type { Context } from 'hono';
-import type { Env, BatchStatusResponse } from '../types';
+import type { Env, BatchStatusResponse, WebhookDelivery } from '../types';
 import { getBatchStateStub } from '../lib/durable-object-helpers';
 
 export async function handleGetBatchStatus(c: Context<{ Bindings: Env }>): Promise<Response> {
@@ -39,8 +39,14 @@ export async function handleGetBatchStatus(c: Context<{ Bindings: Env }>): Promi
       total_bytes_uploaded: totalBytesUploaded,
       created_at: state.created_at,
       enqueued_at: state.enqueued_at,
+      completed_at: state.completed_at,
+      processing_error: state.processing_error,
+      aborted_at: state.aborted_at,
+      expires_at: state.expires_at,
+      expired_at: state.expired_at,
       metadata: state.metadata,
       custom_prompts: state.custom_prompts,
+      chunking_config: state.chunking_config,
       files: state.files.map((f: any) => ({
         r2_key: f.r2_key,
         file_name: f.file_name,
@@ -52,6 +58,9 @@ export async function handleGetBatchStatus(c: Context<{ Bindings: Env }>): Promi
         status: f.status,
         completed_at: f.completed_at,
         cid: f.cid,
+        checksum_sha256: f.checksum_sha256,
+        verified_at: f.verified_at,
+        derived_from: f.derived_from,
       })),
       // Discovery state
       root_pi: state.root_pi,
@@ -66,6 +75,32 @@ export async function handleGetBatchStatus(c: Context<{ Bindings: Env }>): Promi
       };
     }
 
+    // Report skipped files/chunks/relationships once discovery has started
+    if (state.discovery_state) {
+      response.discovery_outcome = state.discovery_state.outcome;
+      if (state.discovery_state.errors && state.discovery_state.errors.length > 0) {
+        response.discovery_errors = state.discovery_state.errors;
+      }
+    }
+
+    // Orchestrator progress once the batch has been handed off
+    if (state.status === 'processing' || state.status === 'completed' || state.status === 'failed') {
+      const processing = await stub.getProcessingProgress();
+      if (processing) {
+        response.processing_progress = processing.processing_progress;
+        if (processing.processing_failures.length > 0) {
+          response.processing_failures = processing.processing_failures;
+        }
+      }
+    }
+
+    // Webhook delivery attempts (payloads omitted)
+    if (state.callback_url) {
+      response.callback_url = state.callback_url;
+      const deliveries: WebhookDelivery[] = await stub.getWebhookDeliveries();
+      response.webhook_deliveries = deliveries.map(({ payload: _payload, ...delivery }) => delivery);
+    }
+
     return c.json(response, 200);
   } catch (error) {
     console.error('Error getting batch status:', error);
@@ -7,14 +7,26 @@ import { ulid } from 'ulidx';
 import type { Context } from 'hono';
 import type { Env, InitBatchRequest, InitBatchResponse, BatchState } from '../types';
 import { getBatchStateStub } from '../lib/durable-object-helpers';
-import { validateBatchSize, validateLogicalPath, validateRootPath, validateParentPi, checkParentPiExists, validateCustomPrompts, checkUploadPermission } from '../lib/validation';
+import { validateWebhookConfig } from '../lib/webhooks';
+import { validateBatchSize, validateRootPath, validateParentPi, checkParentPiExists, validateCustomPrompts, validateChunkingConfig, checkUploadPermission } from '../lib/validation';
 
 export async function handleInitBatch(c: Context<{ Bindings: Env }>): Promise<Response> {
   try {
     const body = await c.req.json<InitBatchRequest>();
 
     // Validate request
-    const { uploader, root_path, file_count, total_size, metadata, parent_pi, custom_prompts } = body;
+    const {
+      uploader,
+      root_path,
+      file_count,
+      total_size,
+      metadata,
+      parent_pi,
+      custom_prompts,
+      chunking_config,
+      callback_url,
+      callback_secret,
+    } = body;
 
     if (!uploader || typeof uploader !== 'string') {
       return c.json({ error: 'Missing or invalid uploader' }, 400);
@@ -91,10 +103,29 @@ export async function handleInitBatch(c: Context<{ Bindings: Env }>): Promise<Re
       return c.json({ error: customPromptsError }, 400);
     }
 
+    // Validate chunking config if provided
+    const chunkingError = validateChunkingConfig(chunking_config);
+    if (chunkingError) {
+      return c.json({ error: chunkingError }, 400);
+    }
+
+    // Validate webhook config if provided
+    const webhookError = validateWebhookConfig(callback_url, callback_secret);
+    if (webhookError) {
+      return c.json({ error: webhookError }, 400);
+    }
+
     // Generate IDs
     const batchId = ulid();
     const sessionId = `sess_${ulid()}`;
 
+    // Batch expires (and is garbage collected) if not finalized within the TTL
+    const createdAt = new Date();
+    const ttlSeconds = parseInt(c.env.BATCH_TTL_SECONDS);
+    const expiresAt = ttlSeconds > 0
+      ? new Date(createdAt.getTime() + ttlSeconds * 1000).toISOString()
+      : undefined;
+
     // Initialize batch state
     const batchState: BatchState = {
       batch_id: batchId,
@@ -106,9 +137,14 @@ export async function handleInitBatch(c: Context<{ Bindings: Env }>): Promise<Re
       total_size,
       metadata: metadata || {},
       custom_prompts,
+      chunking_config,
       files: [],
       status: 'uploading',
-      created_at: new Date().toISOString(),
+      created_at: createdAt.toISOString(),
+      expires_at: expiresAt,
+      callback_url,
+      callback_secret,
+      created_by: c.req.header('X-User-Id') || undefined,
     };
 
     // Save to Durable Object (atomic, no race conditions)
@@ -0,0 +1,65 @@
+/**
+ * GET /api/batches?uploader=...&status=...&cursor=...&limit=...
+ * List an uploader's batches, newest first, with cursor pagination
+ * Batches owned by another user (X-User-Id at init) are left out
+ */
+
+import type { Context } from 'hono';
+import type { Env, BatchStatus, ListBatchesResponse } from '../types';
+import { getUploaderIndexStub } from '../lib/durable-object-helpers';
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+
+const BATCH_STATUSES = new Set<BatchStatus>([
+  'uploading',
+  'discovery',
+  'preprocessing',
+  'enqueued',
+  'processing',
+  'completed',
+  'failed',
+  'aborted',
+  'expired',
+]);
+
+export async function handleListBatches(
+  c: Context<{ Bindings: Env }>
+): Promise<Response> {
+  try {
+    const uploader = c.req.query('uploader');
+    const status = c.req.query('status');
+    const cursor = c.req.query('cursor');
+    const limitParam = c.req.query('limit');
+
+    // Validate query
+    if (!uploader) {
+      return c.json({ error: 'Missing uploader' }, 400);
+    }
+
+    if (status !== undefined && !BATCH_STATUSES.has(status as BatchStatus)) {
+      return c.json({ error: `Invalid status: ${status}` }, 400);
+    }
+
+    let limit = DEFAULT_LIMIT;
+    if (limitParam !== undefined) {
+      limit = Number(limitParam);
+      if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+        return c.json({ error: `limit must be an integer between 1 and ${MAX_LIMIT}` }, 400);
+      }
+    }
+
+    const index = getUploaderIndexStub(c.env.UPLOADER_INDEX_DO, uploader);
+    const response: ListBatchesResponse = await index.listBatches({
+      userId: c.req.header('X-User-Id'),
+      status: status as BatchStatus | undefined,
+      cursor: cursor || undefined,
+      limit,
+    });
+
+    return c.json(response, 200);
+  } catch (error) {
+    console.error('Error listing batches:', error);
+    return c.json({ error: 'Internal server error' }, 500);
+  }
+}
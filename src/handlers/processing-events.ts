@@ -0,0 +1,129 @@
+/**
+ * POST /api/batches/:batchId/processing-events
+ * Called by the orchestrator to report per-PI progress and the final
+ * outcome of an enqueued batch (moves it to processing / completed / failed)
+ *
+ * Requests must be signed with ORCHESTRATOR_SECRET (see lib/service-auth.ts)
+ */
+
+import type { Context } from 'hono';
+import type {
+  Env,
+  ProcessingEventsRequest,
+  ProcessingEventsResponse,
+  PIProcessingStatus,
+} from '../types';
+import { getBatchStateStub } from '../lib/durable-object-helpers';
+import { authenticateServiceRequest, claimServiceRequest } from '../lib/service-auth';
+
+const PI_STATUSES = new Set<PIProcessingStatus>(['processing', 'completed', 'failed']);
+const MAX_PI_UPDATES = 1000; // Per request
+
+/**
+ * Validate a processing-events request body
+ * Returns null if valid, error message if invalid
+ */
+function validateProcessingEvents(body: ProcessingEventsRequest): string | null {
+  if (!body || typeof body !== 'object') {
+    return 'Request must be an object';
+  }
+
+  const { pis, outcome, error } = body;
+
+  if (pis === undefined && outcome === undefined) {
+    return 'Request must include pis or outcome';
+  }
+
+  if (pis !== undefined) {
+    if (!Array.isArray(pis)) {
+      return 'pis must be an array';
+    }
+    if (pis.length > MAX_PI_UPDATES) {
+      return `Too many PI updates (max ${MAX_PI_UPDATES})`;
+    }
+    for (const update of pis) {
+      if (!update || typeof update.pi !== 'string' || !update.pi) {
+        return 'Each PI update requires a pi';
+      }
+      if (!PI_STATUSES.has(update.status)) {
+        return `Invalid status for ${update.pi} (must be processing, completed or failed)`;
+      }
+      if (update.phase !== undefined && typeof update.phase !== 'string') {
+        return `Invalid phase for ${update.pi}`;
+      }
+      if (update.error !== undefined && typeof update.error !== 'string') {
+        return `Invalid error for ${update.pi}`;
+      }
+    }
+  }
+
+  if (outcome !== undefined && outcome !== 'completed' && outcome !== 'failed') {
+    return 'outcome must be completed or failed';
+  }
+
+  if (error !== undefined && typeof error !== 'string') {
+    return 'error must be a string';
+  }
+
+  return null; // Valid
+}
+
+export async function handleProcessingEvents(
+  c: Context<{ Bindings: Env }>
+): Promise<Response> {
+  try {
+    const batchId = c.req.param('batchId');
+
+    // Verify the signature over the raw body before parsing it
+    const rawBody = await c.req.text();
+    const authError = await authenticateServiceRequest(c, c.env.ORCHESTRATOR_SECRET, rawBody);
+    if (authError) {
+      return c.json({ error: authError }, 401);
+    }
+
+    let body: ProcessingEventsRequest;
+    try {
+      body = JSON.parse(rawBody);
+    } catch {
+      return c.json({ error: 'Invalid JSON body' }, 400);
+    }
+
+    const validationError = validateProcessingEvents(body);
+    if (validationError) {
+      return c.json({ error: validationError }, 400);
+    }
+
+    const stub = getBatchStateStub(c.env.BATCH_STATE_DO, batchId);
+    if (!(await stub.getBatch())) {
+      return c.json({ error: 'Batch not found' }, 404);
+    }
+
+    const replayError = await claimServiceRequest(c, batchId);
+    if (replayError) {
+      return c.json({ error: replayError }, 401);
+    }
+
+    const result = await stub.recordProcessingEvents(body);
+
+    const response: ProcessingEventsResponse = {
+      batch_id: batchId,
+      status: result.status,
+      processing_progress: result.processing_progress,
+    };
+    return c.json(response, 200);
+  } catch (error) {
+    console.error('Error recording processing events:', error);
+
+    // Handle specific errors
+    if (error instanceof Error) {
+      if (error.message === 'Batch not found') {
+        return c.json({ error: error.message }, 404);
+      }
+      if (error.message.startsWith('Batch status is') || error.message.startsWith('Unknown PI')) {
+        return c.json({ error: error.message }, 400);
+      }
+    }
+
+    return c.json({ error: 'Internal server error' }, 500);
+  }
+}
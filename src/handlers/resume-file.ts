@@ -0,0 +1,128 @@
+/**
+ * POST /api/batches/:batchId/files/resume
+ * Resume an interrupted file upload by re-issuing presigned URLs
+ *
+ * For multipart uploads, asks R2 which parts it already has and only
+ * signs URLs for the missing ones, so a client can pick up a large
+ * upload after its URLs expired or the browser session was lost.
+ */
+
+import type { Context } from 'hono';
+import type {
+  Env,
+  ResumeFileUploadRequest,
+  ResumeFileUploadResponse,
+  FileState,
+} from '../types';
+import { PART_URL_WINDOW_SIZE } from '../types';
+import { getBatchStateStub } from '../lib/durable-object-helpers';
+import { generatePresignedPutUrl, generatePresignedUrlsForParts } from '../lib/presigned';
+import { listUploadedParts, getFilePartSize, getFileTotalParts } from '../lib/multipart';
+
+export async function handleResumeFileUpload(
+  c: Context<{ Bindings: Env }>
+): Promise<Response> {
+  try {
+    const batchId = c.req.param('batchId');
+    const body = await c.req.json<ResumeFileUploadRequest>();
+
+    const { r2_key } = body;
+
+    // Validate request
+    if (!r2_key || typeof r2_key !== 'string') {
+      return c.json({ error: 'Missing or invalid r2_key' }, 400);
+    }
+
+    // Get batch state from Durable Object
+    const stub = getBatchStateStub(c.env.BATCH_STATE_DO, batchId);
+    const state = await stub.getBatch();
+    if (!state) {
+      return c.json({ error: 'Batch not found' }, 404);
+    }
+
+    if (state.status !== 'uploading') {
+      return c.json({ error: `Batch status is ${state.status}, expected uploading` }, 400);
+    }
+
+    const file: FileState = await stub.getFile(r2_key);
+
+    if (file.status === 'completed') {
+      return c.json({ error: 'File upload already completed' }, 400);
+    }
+
+    if (file.upload_type === 'simple') {
+      // SIMPLE UPLOAD - just re-sign the PUT URL
+      const presignedUrl = await generatePresignedPutUrl(
+        c.env,
+        file.r2_key,
+        file.content_type,
+        file.sha256
+      );
+
+      const response: ResumeFileUploadResponse = {
+        r2_key: file.r2_key,
+        upload_type: 'simple',
+        presigned_url: presignedUrl,
+      };
+      return c.json(response, 200);
+    }
+
+    // MULTIPART UPLOAD - sign only the parts R2 does not have yet
+    const partSize = getFilePartSize(file);
+    const totalParts = getFileTotalParts(file);
+    const uploadedParts = await listUploadedParts(c.env, file.r2_key, file.upload_id!);
+
+    // A part only counts as uploaded if it is the full expected size
+    // (the last part may be shorter)
+    const completedParts = uploadedParts.filter((p) => {
+      const expectedSize = p.part_number === totalParts
+        ? file.file_size - partSize * (totalParts - 1)
+        : partSize;
+      return p.part_number >= 1 && p.part_number <= totalParts && p.size === expectedSize;
+    });
+
+    const completedNumbers = new Set(completedParts.map((p) => p.part_number));
+    const missingParts: number[] = [];
+    for (let partNumber = 1; partNumber <= totalParts; partNumber++) {
+      if (!completedNumbers.has(partNumber)) {
+        missingParts.push(partNumber);
+      }
+    }
+
+    const presignedUrls = await generatePresignedUrlsForParts(
+      c.env,
+      file.r2_key,
+      file.upload_id!,
+      missingParts.slice(0, PART_URL_WINDOW_SIZE)
+    );
+
+    const response: ResumeFileUploadResponse = {
+      r2_key: file.r2_key,
+      upload_type: 'multipart',
+      upload_id: file.upload_id,
+      part_size: partSize,
+      total_parts: totalParts,
+      completed_parts: completedParts.map((p) => ({
+        part_number: p.part_number,
+        etag: p.etag,
+      })),
+      missing_parts: missingParts,
+      presigned_urls: presignedUrls,
+    };
+    return c.json(response, 200);
+  } catch (error) {
+    console.error('Error resuming file upload:', error);
+
+    // Handle specific errors
+    if (error instanceof Error) {
+      if (error.message === 'File not found in batch') {
+        return c.json({ error: error.message }, 404);
+      }
+      if (error.message === 'Multipart upload not found') {
+        return c.json({ error: 'Multipart upload no longer exists in R2, restart the file' }, 410);
+      }
+    }
+
+    return c.json({ error: 'Internal server error' }, 500);
+  }
+}
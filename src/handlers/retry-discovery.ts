@@ -0,0 +1,52 @@
+/**
+ * POST /api/batches/:batchId/discovery/retry
+ * Resume async discovery after it failed (batch status 'failed', phase 'ERROR')
+ *
+ * Optionally re-attempts text files whose IPFS upload failed
+ * (request body: { "retry_failed_files": true }).
+ */
+
+import type { Context } from 'hono';
+import type { Env, RetryDiscoveryRequest, RetryDiscoveryResponse } from '../types';
+import { getBatchStateStub } from '../lib/durable-object-helpers';
+
+export async function handleRetryDiscovery(
+  c: Context<{ Bindings: Env }>
+): Promise<Response> {
+  try {
+    const batchId = c.req.param('batchId');
+
+    // Body is optional
+    const body = await c.req
+      .json<RetryDiscoveryRequest>()
+      .catch((): RetryDiscoveryRequest => ({}));
+
+    if (
+      body.retry_failed_files !== undefined &&
+      typeof body.retry_failed_files !== 'boolean'
+    ) {
+      return c.json({ error: 'retry_failed_files must be a boolean' }, 400);
+    }
+
+    const stub = getBatchStateStub(c.env.BATCH_STATE_DO, batchId);
+    const response: RetryDiscoveryResponse = await stub.retryDiscovery(
+      body.retry_failed_files ?? false
+    );
+
+    return c.json(response, 200);
+  } catch (error) {
+    console.error('Error retrying discovery:', error);
+
+    // Handle specific errors
+    if (error instanceof Error) {
+      if (error.message === 'Batch not found') {
+        return c.json({ error: error.message }, 404);
+      }
+      if (error.message.startsWith('Batch status is')) {
+        return c.json({ error: error.message }, 400);
+      }
+    }
+
+    return c.json({ error: 'Internal server error' }, 500);
+  }
+}
@@ -0,0 +1,140 @@
+/**
+ * POST /api/batches/:batchId/files/start-bulk
+ * Start many file uploads in one call
+ *
+ * Each item is validated and set up in R2 independently (per-item errors
+ * are reported, not fatal), then all successful files are recorded in a
+ * single Durable Object write. Paths already in the batch are rejected,
+ * since replacing a file would orphan its in-flight upload. Multipart
+ * items return no part URLs - fetch them from files/parts.
+ */
+
+import type { Context } from 'hono';
+import type {
+  Env,
+  BulkStartFileUploadRequest,
+  BulkStartFileUploadResponse,
+  BulkStartFileResult,
+  FileState,
+} from '../types';
+import { BULK_MAX_FILES } from '../types';
+import { getBatchStateStub } from '../lib/durable-object-helpers';
+import { validateStartFileRequest, prepareFileUpload } from '../lib/file-upload';
+import { abortIncompleteUploads } from '../lib/r2-cleanup';
+
+export async function handleBulkStartFileUpload(
+  c: Context<{ Bindings: Env }>
+): Promise<Response> {
+  try {
+    const batchId = c.req.param('batchId');
+    const body = await c.req.json<BulkStartFileUploadRequest>();
+
+    // Validate request
+    if (!body.files || !Array.isArray(body.files)) {
+      return c.json({ error: 'Missing or invalid files array' }, 400);
+    }
+
+    if (body.files.length === 0) {
+      return c.json({ error: 'Files array cannot be empty' }, 400);
+    }
+
+    if (body.files.length > BULK_MAX_FILES) {
+      return c.json({ error: `Too many files (maximum ${BULK_MAX_FILES} per call)` }, 400);
+    }
+
+    // Get Durable Object stub
+    const stub = getBatchStateStub(c.env.BATCH_STATE_DO, batchId);
+    const state = await stub.getBatch();
+    if (!state) {
+      return c.json({ error: 'Batch not found' }, 404);
+    }
+
+    if (state.status !== 'uploading') {
+      return c.json({ error: `Batch status is ${state.status}, expected uploading` }, 400);
+    }
+
+    const maxFileSize = parseInt(c.env.MAX_FILE_SIZE);
+    const seenPaths = new Set<string>();
+    const results: BulkStartFileResult[] = [];
+    const fileStates: FileState[] = [];
+
+    // Validate every item up front
+    let validItems: number[] = [];
+    body.files.forEach((item, index) => {
+      const validationError = validateStartFileRequest(item, maxFileSize);
+      if (validationError) {
+        results.push({ index, success: false, logical_path: item?.logical_path, error: validationError });
+        return;
+      }
+      if (seenPaths.has(item.logical_path)) {
+        results.push({ index, success: false, logical_path: item.logical_path, error: 'Duplicate logical_path in request' });
+        return;
+      }
+      seenPaths.add(item.logical_path);
+      validItems.push(index);
+    });
+
+    // Reject paths the batch already has (r2_key is derived from logical_path)
+    const existing: FileState[] = await stub.getFiles(
+      validItems.map((index) => `staging/${batchId}${body.files[index]!.logical_path}`)
+    );
+    const existingPaths = new Set(existing.map((file) => file.logical_path));
+    validItems = validItems.filter((index) => {
+      const { logical_path } = body.files[index]!;
+      if (existingPaths.has(logical_path)) {
+        results.push({ index, success: false, logical_path, error: 'File already exists in batch' });
+        return false;
+      }
+      return true;
+    });
+
+    // Create uploads in R2 (in parallel within the call)
+    await Promise.all(
+      validItems.map(async (index) => {
+        const item = body.files[index]!;
+        try {
+          const { fileState, response } = await prepareFileUpload(c.env, batchId, item, 0);
+          fileStates.push(fileState);
+          results.push({ index, success: true, ...response });
+        } catch (error) {
+          console.error(`[Bulk] Failed to start upload for ${item.logical_path}:`, error);
+          results.push({ index, success: false, logical_path: item.logical_path, error: 'Failed to create upload' });
+        }
+      })
+    );
+
+    // Record all successful files in one atomic write; if that fails,
+    // nothing references the multipart uploads just created
+    if (fileStates.length > 0) {
+      try {
+        await stub.addFiles(fileStates);
+      } catch (error) {
+        await abortIncompleteUploads(c.env.STAGING_BUCKET, fileStates);
+        throw error;
+      }
+    }
+
+    results.sort((a, b) => a.index - b.index);
+
+    const response: BulkStartFileUploadResponse = {
+      started: fileStates.length,
+      failed: results.length - fileStates.length,
+      results,
+    };
+
+    console.log(`[Bulk] Started ${response.started} uploads (${response.failed} failed) for batch ${batchId}`);
+
+    return c.json(response, 200);
+  } catch (error) {
+    console.error('Error starting bulk file upload:', error);
+
+    if (
+      error instanceof Error &&
+      (error.message.startsWith('Batch status is') || error.message.startsWith('File already exists'))
+    ) {
+      return c.json({ error: error.message }, 400);
+    }
+
+    return c.json({ error: 'Internal server error' }, 500);
+  }
+}
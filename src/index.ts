@@ -9,14 +9,28 @@ import type { Env } from './types';
 
 // Import handlers
 import { handleInitBatch } from './handlers/init-batch';
+import { handleListBatches } from './handlers/list-batches';
 import { handleStartFileUpload } from './handlers/start-file';
 import { handleCompleteFileUpload } from './handlers/complete-file';
+import { handleResumeFileUpload } from './handlers/resume-file';
+import { handleGetPartUrls } from './handlers/get-part-urls';
+import { handleBulkStartFileUpload } from './handlers/start-bulk';
+import { handleBulkCompleteFileUpload } from './handlers/complete-bulk';
 import { handleFinalizeBatch } from './handlers/finalize';
 import { handleGetBatchStatus } from './handlers/get-status';
+import { handleBatchEvents } from './handlers/batch-events';
 import { handleEnqueueProcessed } from './handlers/enqueue-processed';
+import { handleProcessingEvents } from './handlers/processing-events';
+import { handleDeleteFile } from './handlers/delete-file';
+import { handleAbortBatch } from './handlers/abort-batch';
+import { handleRetryDiscovery } from './handlers/retry-discovery';
+import { handleGetSchema } from './handlers/get-schema';
 
-// Export Durable Object
+import { requireBatchAccess } from './lib/batch-access';
+
+// Export Durable Objects
 export { BatchStateObject } from './durable-objects/BatchState';
+export { UploaderIndexObject } from './durable-objects/UploaderIndex';
 
 // Create Hono app
 const app = new Hono<{ Bindings: Env }>();
@@ -25,7 +39,7 @@ const app = new Hono<{ Bindings: Env }>();
 // TODO: Restrict this in production to your frontend domains
 app.use('/*', cors({
   origin: '*',
-  allowMethods: ['GET', 'POST', 'PUT', 'OPTIONS'],
+  allowMethods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
   allowHeaders: ['Content-Type', 'Authorization'],
   maxAge: 86400,
 }));
@@ -40,12 +54,25 @@ app.get('/', (c) => {
 });
 
 // API Routes
+// Client batch routes check the caller owns the batch (requireBatchAccess);
+// enqueue-processed and processing-events are service callbacks
 app.post('/api/batches/init', handleInitBatch);
-app.get('/api/batches/:batchId/status', handleGetBatchStatus);
-app.post('/api/batches/:batchId/files/start', handleStartFileUpload);
-app.post('/api/batches/:batchId/files/complete', handleCompleteFileUpload);
-app.post('/api/batches/:batchId/finalize', handleFinalizeBatch);
+app.get('/api/batches', handleListBatches);
+app.get('/api/batches/:batchId/status', requireBatchAccess, handleGetBatchStatus);
+app.get('/api/batches/:batchId/events', requireBatchAccess, handleBatchEvents);
+app.post('/api/batches/:batchId/files/start', requireBatchAccess, handleStartFileUpload);
+app.post('/api/batches/:batchId/files/complete', requireBatchAccess, handleCompleteFileUpload);
+app.post('/api/batches/:batchId/files/start-bulk', requireBatchAccess, handleBulkStartFileUpload);
+app.post('/api/batches/:batchId/files/complete-bulk', requireBatchAccess, handleBulkCompleteFileUpload);
+app.post('/api/batches/:batchId/files/resume', requireBatchAccess, handleResumeFileUpload);
+app.post('/api/batches/:batchId/files/parts', requireBatchAccess, handleGetPartUrls);
+app.delete('/api/batches/:batchId/files', requireBatchAccess, handleDeleteFile);
+app.post('/api/batches/:batchId/finalize', requireBatchAccess, handleFinalizeBatch);
+app.post('/api/batches/:batchId/abort', requireBatchAccess, handleAbortBatch);
+app.post('/api/batches/:batchId/discovery/retry', requireBatchAccess, handleRetryDiscovery);
 app.post('/api/batches/:batchId/enqueue-processed', handleEnqueueProcessed);
+app.post('/api/batches/:batchId/processing-events', handleProcessingEvents);
+app.get('/api/schemas/:name', handleGetSchema);
 
 // 404 handler
 app.notFound((c) => {
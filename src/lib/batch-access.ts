@@ -0,0 +1,98 @@
+/**
+ * Batch ownership checks for client-facing batch routes
+ *
+ * A batch created with an X-User-Id header belongs to that user; every
+ * request on it must carry the same X-User-Id. When REQUIRE_SESSION_TOKEN
+ * is "true", requests must also present the batch's session_id as
+ * "Authorization: Bearer <session_id>" (WebSocket upgrades, which can't
+ * set headers from browsers, may pass it as ?session_id= instead).
+ */
+
+import type { Context, Next } from 'hono';
+import type { Env } from '../types';
+import type { BatchRecord } from '../durable-objects/batch-storage';
+import { getBatchStateStub } from './durable-object-helpers';
+
+/**
+ * Check a request against a batch's owner and session
+ * Returns null if allowed, otherwise the HTTP status and error message
+ */
+export function checkBatchAccess(
+  batch: BatchRecord,
+  userId: string | undefined,
+  sessionToken: string | undefined,
+  requireSessionToken: boolean
+): { status: 401 | 403; error: string } | null {
+  if (batch.created_by) {
+    if (!userId) {
+      return { status: 401, error: 'Authentication required: Missing user context' };
+    }
+    if (userId !== batch.created_by) {
+      return { status: 403, error: 'Permission denied: batch belongs to another user' };
+    }
+  }
+
+  if (requireSessionToken) {
+    if (!sessionToken) {
+      return { status: 401, error: 'Missing session token' };
+    }
+    if (!constantTimeEqual(sessionToken, batch.session_id)) {
+      return { status: 403, error: 'Invalid session token' };
+    }
+  }
+
+  return null; // Allowed
+}
+
+/**
+ * Middleware enforcing checkBatchAccess() on routes with a :batchId param
+ * Unknown batches fall through so handlers keep their own 404 responses
+ */
+export async function requireBatchAccess(
+  c: Context<{ Bindings: Env }>,
+  next: Next
+): Promise<Response | void> {
+  const batchId = c.req.param('batchId');
+  if (!batchId) {
+    return next();
+  }
+
+  const stub = getBatchStateStub(c.env.BATCH_STATE_DO, batchId);
+  const batch: BatchRecord | null = await stub.getBatch();
+  if (!batch) {
+    return next();
+  }
+
+  const denied = checkBatchAccess(
+    batch,
+    c.req.header('X-User-Id'),
+    getSessionToken(c),
+    c.env.REQUIRE_SESSION_TOKEN === 'true'
+  );
+  if (denied) {
+    return c.json({ error: denied.error }, denied.status);
+  }
+
+  return next();
+}
+
+function getSessionToken(c: Context<{ Bindings: Env }>): string | undefined {
+  const match = /^Bearer\s+(.+)$/i.exec(c.req.header('Authorization') ?? '');
+  if (match) {
+    return match[1]!.trim();
+  }
+  if (c.req.header('Upgrade')?.toLowerCase() === 'websocket') {
+    return c.req.query('session_id') || undefined;
+  }
+  return undefined;
+}
+
+function constantTimeEqual(a: string, b: string): boolean {
+  const encoder = new TextEncoder();
+  const aBytes = encoder.encode(a);
+  const bBytes = encoder.encode(b);
+  if (aBytes.byteLength !== bBytes.byteLength) {
+    return false;
+  }
+  return crypto.subtle.timingSafeEqual(aBytes, bBytes);
+}
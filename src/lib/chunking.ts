@@ -4,17 +4,31 @@
  * Implements recursive separator-based chunking that prioritizes
  * natural text boundaries (paragraphs, sentences, words) over
  * arbitrary character splits.
+ *
+ * Sizes are measured in characters or, with unit "tokens", in estimated
+ * tokens (see lib/tokenizer.ts). Offsets are always character offsets.
  */
 
+import { estimateTokens } from './tokenizer';
+
 // ============================================================================
 // Types
 // ============================================================================
 
+export type ChunkUnit = 'chars' | 'tokens';
+
 export interface ChunkingConfig {
+  /**
+   * Unit for min_chunk_size, max_chunk_size and overlap
+   * "chars" = characters
+   * "tokens" = estimated tokens (for the AI phases' token limits)
+   */
+  unit: ChunkUnit;
+
   /**
    * Algorithm used for chunking
    * "adaptive" = chunk size scales with file size
-   * "fixed" = constant chunk size
+   * "fixed" = constant chunk size (max_chunk_size)
    */
   algorithm: 'adaptive' | 'fixed';
 
@@ -24,22 +38,73 @@ export interface ChunkingConfig {
   target_chunks: number;
 
   /**
-   * Minimum chunk size in characters
+   * Minimum chunk size (in unit)
    */
   min_chunk_size: number;
 
   /**
-   * Maximum chunk size in characters
+   * Maximum chunk size (in unit)
    */
   max_chunk_size: number;
 
   /**
-   * Overlap between chunks in characters
+   * Overlap between chunks (in unit)
    */
   overlap: number;
 }
 
-export interface ChunkResult {
+/**
+ * Partial config layered over the defaults (or over the batch config)
+ */
+export type ChunkingOverrides = Partial<ChunkingConfig>;
+
+/**
+ * Per-batch chunking configuration (InitBatchRequest.chunking_config)
+ */
+export interface BatchChunkingConfig extends ChunkingOverrides {
+  /**
+   * Overrides keyed by directory path (e.g. "/transcripts"). An override
+   * applies to that directory and everything below it; the deepest match wins.
+   */
+  directories?: Record<string, ChunkingOverrides>;
+}
+
+/**
+ * Where a chunk sits in a structured file (set by the format-aware chunkers)
+ */
+export interface ChunkStructure {
+  /**
+   * Markdown headings enclosing the chunk start (e.g. "# Intro > ## Methods")
+   */
+  heading_path?: string;
+
+  /**
+   * Chunk content is prefixed with the file's first header_chars characters
+   * (the CSV header row); otherwise content is exactly char_start..char_end
+   */
+  header_chars?: number;
+
+  /**
+   * CSV data rows in the chunk (0-indexed, header excluded, end exclusive)
+   */
+  row_start?: number;
+  row_end?: number;
+
+  /**
+   * JSON array / JSON Lines elements in the chunk (0-indexed, end exclusive)
+   */
+  element_start?: number;
+  element_end?: number;
+
+  /**
+   * Range in the original markup file, for chunks of text extracted from
+   * HTML/XML (char_start/char_end then index into the extracted text)
+   */
+  source_start?: number;
+  source_end?: number;
+}
+
+export interface ChunkResult extends ChunkStructure {
   /**
    * Chunk identifier (e.g., "chunk_0", "chunk_1")
    */
@@ -61,6 +126,15 @@ export interface ChunkResult {
   char_end: number;
 }
 
+/**
+ * A contiguous slice of text (positions relative to the text that was split)
+ */
+export interface TextSpan {
+  text: string;
+  char_start: number;
+  char_end: number;
+}
+
 export interface FileChunks {
   /**
    * Original file CID
@@ -72,13 +146,36 @@ export interface FileChunks {
    */
   total_chars: number;
 
+  /**
+   * Text extracted from an HTML/XML file, stored as its own component.
+   * When present, chunks are slices of this text rather than the original.
+   */
+  extracted_text?: ExtractedTextInfo;
+
   /**
    * Array of chunks (empty if file wasn't chunked)
    */
   chunks: ChunkMetadata[];
 }
 
-export interface ChunkMetadata {
+export interface ExtractedTextInfo {
+  /**
+   * Component name of the extracted text (e.g. "page.html.txt")
+   */
+  component: string;
+
+  /**
+   * CID of the extracted text
+   */
+  cid: string;
+
+  /**
+   * Character count of the extracted text
+   */
+  total_chars: number;
+}
+
+export interface ChunkMetadata extends ChunkStructure {
   /**
    * Chunk identifier (e.g., "chunk_0", "chunk_1")
    */
@@ -103,6 +200,11 @@ export interface ChunkMetadata {
    * Character count of this chunk
    */
   char_count: number;
+
+  /**
+   * Estimated token count of this chunk
+   */
+  token_count?: number;
 }
 
 export interface ChunksManifest {
@@ -130,6 +232,7 @@ export interface ChunksManifest {
  * Default chunking configuration
  */
 export const DEFAULT_CHUNKING_CONFIG: ChunkingConfig = {
+  unit: 'chars',
   algorithm: 'adaptive',
   target_chunks: 50,
   min_chunk_size: 1000,
@@ -137,6 +240,37 @@ export const DEFAULT_CHUNKING_CONFIG: ChunkingConfig = {
   overlap: 200,
 };
 
+/**
+ * Resolve the effective chunking config for a directory
+ * Layers: defaults <- batch config <- deepest matching directory override
+ */
+export function resolveChunkingConfig(
+  batchConfig: BatchChunkingConfig | undefined,
+  dirPath: string
+): ChunkingConfig {
+  if (!batchConfig) {
+    return DEFAULT_CHUNKING_CONFIG;
+  }
+
+  const { directories, ...batchOverrides } = batchConfig;
+
+  let directoryOverrides: ChunkingOverrides = {};
+  let matchLength = -1;
+  for (const [path, overrides] of Object.entries(directories ?? {})) {
+    const matches = path === '/' || dirPath === path || dirPath.startsWith(`${path}/`);
+    if (matches && path.length > matchLength) {
+      directoryOverrides = overrides;
+      matchLength = path.length;
+    }
+  }
+
+  return {
+    ...DEFAULT_CHUNKING_CONFIG,
+    ...batchOverrides,
+    ...directoryOverrides,
+  };
+}
+
 /**
  * Separators in order of priority (paragraph → line → sentence → word → char)
  * Character-level splitting (empty string) is the absolute last resort.
@@ -154,9 +288,50 @@ const SEPARATORS = [
 // Core Functions
 // ============================================================================
 
+/**
+ * Measures text in a config's unit
+ */
+export type TextMeasure = (text: string) => number;
+
+const measureChars: TextMeasure = (text) => text.length;
+
+/**
+ * Get the function that measures text in the config's unit
+ */
+export function getTextMeasure(config: ChunkingConfig): TextMeasure {
+  return config.unit === 'tokens' ? estimateTokens : measureChars;
+}
+
+// Upper bound on characters per measured unit, to limit the search window
+const MAX_CHARS_PER_UNIT = 16;
+
+/**
+ * Number of characters from the start (or end) of text that fit in `units`
+ */
+function fitChars(text: string, units: number, measure: TextMeasure, fromEnd: boolean = false): number {
+  if (units <= 0 || measure === measureChars) {
+    return Math.max(0, units);
+  }
+
+  // Binary search for the longest piece that measures within units
+  let low = 0;
+  let high = Math.min(text.length, units * MAX_CHARS_PER_UNIT);
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    const piece = fromEnd ? text.slice(text.length - mid) : text.slice(0, mid);
+    if (measure(piece) <= units) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return low;
+}
+
 /**
  * Calculate the appropriate chunk size based on file size.
  * Uses adaptive scaling to prevent chunk explosion on large files.
+ * fileSize and the result are in the config's unit.
  */
 export function calculateChunkSize(fileSize: number, config: ChunkingConfig): number {
   const { min_chunk_size, max_chunk_size, target_chunks } = config;
@@ -166,6 +341,10 @@ export function calculateChunkSize(fileSize: number, config: ChunkingConfig): nu
     return fileSize;
   }
 
+  if (config.algorithm === 'fixed') {
+    return Math.min(fileSize, max_chunk_size);
+  }
+
   // Calculate ideal chunk size to hit target count
   const idealChunkSize = Math.ceil(fileSize / target_chunks);
 
@@ -174,7 +353,7 @@ export function calculateChunkSize(fileSize: number, config: ChunkingConfig): nu
 }
 
 /**
- * Check if a file should be chunked based on its size.
+ * Check if a file should be chunked based on its size (in the config's unit).
  */
 export function shouldChunk(fileSize: number, config: ChunkingConfig = DEFAULT_CHUNKING_CONFIG): boolean {
   return fileSize >= config.min_chunk_size;
@@ -192,13 +371,16 @@ export function chunkText(
   text: string,
   config: ChunkingConfig = DEFAULT_CHUNKING_CONFIG
 ): ChunkResult[] {
+  const measure = getTextMeasure(config);
+  const size = measure(text);
+
   // Don't chunk if below minimum size
-  if (text.length < config.min_chunk_size) {
+  if (size < config.min_chunk_size) {
     return [];
   }
 
-  const chunkSize = calculateChunkSize(text.length, config);
-  const results = recursiveChunk(text, chunkSize, config.overlap, SEPARATORS);
+  const chunkSize = calculateChunkSize(size, config);
+  const results = recursiveChunk(text, chunkSize, config.overlap, SEPARATORS, measure);
 
   // Assign IDs to chunks
   return results.map((chunk, index) => ({
@@ -209,15 +391,59 @@ export function chunkText(
   }));
 }
 
+/**
+ * Split text into spans of at most chunkSize (measured units) on natural boundaries
+ * Building block for the structure-aware chunkers; positions are relative to text.
+ */
+export function splitText(
+  text: string,
+  chunkSize: number,
+  overlap: number,
+  measure: TextMeasure = measureChars
+): TextSpan[] {
+  return recursiveChunk(text, chunkSize, overlap, SEPARATORS, measure);
+}
+
+const CHUNK_STRUCTURE_FIELDS: Array<keyof ChunkStructure> = [
+  'heading_path',
+  'header_chars',
+  'row_start',
+  'row_end',
+  'element_start',
+  'element_end',
+  'source_start',
+  'source_end',
+];
+
+/**
+ * Copy the structure fields that are set on a chunk
+ */
+export function pickChunkStructure(chunk: ChunkStructure): ChunkStructure {
+  const structure: ChunkStructure = {};
+  for (const field of CHUNK_STRUCTURE_FIELDS) {
+    if (chunk[field] !== undefined) {
+      (structure as Record<string, unknown>)[field] = chunk[field];
+    }
+  }
+  return structure;
+}
+
+/**
+ * Build a chunk's content from the source text
+ */
+export function getChunkContent(
+  source: string,
+  chunk: { char_start: number; char_end: number; header_chars?: number }
+): string {
+  const header = chunk.header_chars ? source.slice(0, chunk.header_chars) : '';
+  return header + source.slice(chunk.char_start, chunk.char_end);
+}
+
 // ============================================================================
 // Internal Chunking Logic
 // ============================================================================
 
-interface InternalChunkResult {
-  text: string;
-  char_start: number;
-  char_end: number;
-}
+type InternalChunkResult = TextSpan;
 
 /**
  * Recursively chunk text using natural boundaries.
@@ -228,10 +454,11 @@ function recursiveChunk(
   text: string,
   chunkSize: number,
   overlap: number,
-  separators: string[]
+  separators: string[],
+  measure: TextMeasure
 ): InternalChunkResult[] {
   // If text fits in one chunk, return as-is
-  if (text.length <= chunkSize) {
+  if (measure(text) <= chunkSize) {
     return [{
       text,
       char_start: 0,
@@ -251,7 +478,8 @@ function recursiveChunk(
       chunkSize,
       overlap,
       separator,
-      remainingSeparators
+      remainingSeparators,
+      measure
     );
 
     if (chunks.length > 0) {
@@ -260,7 +488,7 @@ function recursiveChunk(
   }
 
   // Fallback: character-level split (should rarely happen)
-  return characterLevelSplit(text, chunkSize, overlap);
+  return characterLevelSplit(text, chunkSize, overlap, measure);
 }
 
 /**
@@ -271,11 +499,12 @@ function splitBySeparator(
   chunkSize: number,
   overlap: number,
   separator: string,
-  remainingSeparators: string[]
+  remainingSeparators: string[],
+  measure: TextMeasure
 ): InternalChunkResult[] {
   // Empty separator = character-level split
   if (separator === '') {
-    return characterLevelSplit(text, chunkSize, overlap);
+    return characterLevelSplit(text, chunkSize, overlap, measure);
   }
 
   const parts = text.split(separator);
@@ -287,6 +516,7 @@ function splitBySeparator(
 
   const chunks: InternalChunkResult[] = [];
   let currentChunk = '';
+  let currentSize = 0;
   let currentStart = 0;
   let position = 0;
 
@@ -296,15 +526,16 @@ function splitBySeparator(
     const partWithSep = isLast ? part : part + separator;
 
     // Check if adding this part would exceed chunk size
-    const candidate = currentChunk + partWithSep;
+    const partSize = measure(partWithSep);
 
-    if (candidate.length <= chunkSize) {
+    if (currentSize + partSize <= chunkSize) {
       // Part fits, add to current chunk
-      currentChunk = candidate;
+      currentChunk += partWithSep;
+      currentSize += partSize;
     } else if (currentChunk.length === 0) {
       // Part alone is too big, recurse with finer separators
-      if (part.length > chunkSize && remainingSeparators.length > 0) {
-        const subChunks = recursiveChunk(part, chunkSize, overlap, remainingSeparators);
+      if (measure(part) > chunkSize && remainingSeparators.length > 0) {
+        const subChunks = recursiveChunk(part, chunkSize, overlap, remainingSeparators, measure);
         for (const sub of subChunks) {
           chunks.push({
             text: sub.text,
@@ -316,7 +547,7 @@ function splitBySeparator(
         currentStart = position;
       } else {
         // Can't split further, take what we can (truncate if necessary)
-        const truncated = partWithSep.slice(0, chunkSize);
+        const truncated = partWithSep.slice(0, Math.max(1, fitChars(partWithSep, chunkSize, measure)));
         chunks.push({
           text: truncated,
           char_start: position,
@@ -334,18 +565,20 @@ function splitBySeparator(
       });
 
       // Apply overlap: include end of previous chunk in new chunk
-      const overlapText = getOverlapText(currentChunk, overlap);
+      const overlapText = getOverlapText(currentChunk, overlap, measure);
       const overlapStart = currentStart + currentChunk.length - overlapText.length;
 
       // Start new chunk with overlap + current part
       currentStart = overlapStart;
       currentChunk = overlapText + partWithSep;
+      currentSize = measure(overlapText) + partSize;
 
       // If the new chunk is already too big, we need to handle it
-      if (currentChunk.length > chunkSize) {
+      if (currentSize > chunkSize) {
         // Just use the part without overlap
         currentStart = position;
         currentChunk = partWithSep;
+        currentSize = partSize;
       }
     }
 
@@ -370,17 +603,18 @@ function splitBySeparator(
 /**
  * Get overlap text from end of chunk, preferring natural boundaries.
  */
-function getOverlapText(chunk: string, overlap: number): string {
-  if (overlap <= 0 || chunk.length <= overlap) {
+function getOverlapText(chunk: string, overlap: number, measure: TextMeasure): string {
+  const overlapChars = fitChars(chunk, overlap, measure, true);
+  if (overlapChars <= 0 || chunk.length <= overlapChars) {
     return '';
   }
 
-  // Take last `overlap` characters
-  let overlapText = chunk.slice(-overlap);
+  // Take last `overlap` worth of characters
+  let overlapText = chunk.slice(-overlapChars);
 
   // Try to start at a natural boundary (space)
   const spaceIndex = overlapText.indexOf(' ');
-  if (spaceIndex > 0 && spaceIndex < overlap / 2) {
+  if (spaceIndex > 0 && spaceIndex < overlapChars / 2) {
     overlapText = overlapText.slice(spaceIndex + 1);
   }
 
@@ -393,13 +627,17 @@ function getOverlapText(chunk: string, overlap: number): string {
 function characterLevelSplit(
   text: string,
   chunkSize: number,
-  overlap: number
+  overlap: number,
+  measure: TextMeasure
 ): InternalChunkResult[] {
   const chunks: InternalChunkResult[] = [];
   let start = 0;
 
   while (start < text.length) {
-    const end = Math.min(start + chunkSize, text.length);
+    // Sizes in characters for the text at this position
+    const chunkChars = Math.max(1, fitChars(text.slice(start), chunkSize, measure));
+    const end = Math.min(start + chunkChars, text.length);
+    const overlapChars = fitChars(text.slice(start, end), overlap, measure, true);
 
     chunks.push({
       text: text.slice(start, end),
@@ -407,17 +645,21 @@ function characterLevelSplit(
       char_end: end,
     });
 
+    if (end === text.length) {
+      break;
+    }
+
     // Move forward, accounting for overlap
-    const step = chunkSize - overlap;
+    const step = chunkChars - overlapChars;
     if (step <= 0) {
-      // Prevent infinite loop if overlap >= chunkSize
+      // Prevent infinite loop if overlap >= chunk size
       start = end;
     } else {
       start += step;
     }
 
     // Don't create tiny trailing chunks
-    if (text.length - start < overlap && start < text.length) {
+    if (text.length - start < overlapChars && start < text.length) {
       // Extend the last chunk to include remaining text
       const lastChunk = chunks[chunks.length - 1];
       if (lastChunk) {
@@ -443,13 +685,8 @@ export function buildChunksManifest(
     filename: string;
     original_cid: string;
     total_chars: number;
-    chunks: Array<{
-      id: string;
-      cid: string;
-      char_start: number;
-      char_end: number;
-      char_count: number;
-    }>;
+    extracted_text?: ExtractedTextInfo;
+    chunks: ChunkMetadata[];
   }>,
   config: ChunkingConfig = DEFAULT_CHUNKING_CONFIG
 ): ChunksManifest {
@@ -463,6 +700,7 @@ export function buildChunksManifest(
     manifest.files[file.filename] = {
       original_cid: file.original_cid,
       total_chars: file.total_chars,
+      ...(file.extracted_text && { extracted_text: file.extracted_text }),
       chunks: file.chunks,
     };
   }
@@ -1,9 +1,9 @@
 /**
  * Durable Object Helper Utilities
- * Provides convenient access to BatchStateObject Durable Objects
+ * Provides convenient access to BatchStateObject and UploaderIndexObject Durable Objects
  */
 
-import type { DurableObjectNamespace } from '@cloudflare/workers-types';
+import type { UploaderIndexObject } from '../durable-objects/UploaderIndex';
 
 /**
  * Get Durable Object stub for a batch
@@ -16,3 +16,15 @@ export function getBatchStateStub(
   const id = namespace.idFromName(batchId);
   return namespace.get(id) as any;
 }
+
+/**
+ * Get Durable Object stub for an uploader's batch index
+ * One index per uploader, keyed by the uploader string
+ */
+export function getUploaderIndexStub(
+  namespace: DurableObjectNamespace<UploaderIndexObject>,
+  uploader: string
+): DurableObjectStub<UploaderIndexObject> {
+  const id = namespace.idFromName(uploader);
+  return namespace.get(id);
+}
@@ -0,0 +1,213 @@
+/**
+ * File upload helpers shared by the single-file and bulk endpoints
+ * Covers request validation, R2 upload setup and R2-side completion
+ */
+
+import type {
+  Env,
+  StartFileUploadRequest,
+  StartFileUploadResponse,
+  CompleteFileUploadRequest,
+  FileState,
+} from '../types';
+import { MULTIPART_THRESHOLD, PART_URL_WINDOW_SIZE } from '../types';
+import { generatePresignedPutUrl, generatePresignedUploadPartUrls } from './presigned';
+import { calculatePartSize, getTotalParts } from './multipart';
+import {
+  validateFileSize,
+  validateLogicalPath,
+  validateProcessingConfig,
+  validateMultipartCompletion,
+} from './validation';
+import { validateSha256, verifyUploadedObject } from './integrity';
+
+/**
+ * Validate a files/start request body
+ * Returns null if valid, error message if invalid
+ */
+export function validateStartFileRequest(
+  body: StartFileUploadRequest,
+  maxFileSize: number
+): string | null {
+  if (!body || typeof body !== 'object') {
+    return 'Request must be an object';
+  }
+
+  const { file_name, file_size, logical_path, content_type, sha256, processing_config } = body;
+
+  if (!file_name || typeof file_name !== 'string') {
+    return 'Missing or invalid file_name';
+  }
+
+  if (typeof file_size !== 'number' || file_size <= 0) {
+    return 'Invalid file_size';
+  }
+
+  if (!validateFileSize(file_size, maxFileSize)) {
+    return `File size ${file_size} exceeds maximum ${maxFileSize}`;
+  }
+
+  if (!logical_path || !validateLogicalPath(logical_path)) {
+    return 'Missing or invalid logical_path';
+  }
+
+  if (!content_type || typeof content_type !== 'string') {
+    return 'Missing or invalid content_type';
+  }
+
+  // Checksums are signed into the single PUT URL, so only simple uploads support them
+  if (sha256 !== undefined) {
+    if (typeof sha256 !== 'string' || !validateSha256(sha256)) {
+      return 'Invalid sha256 (must be 64 hex characters)';
+    }
+    if (file_size >= MULTIPART_THRESHOLD) {
+      return 'sha256 is only supported for simple (non-multipart) uploads';
+    }
+  }
+
+  return validateProcessingConfig(processing_config);
+}
+
+/**
+ * Set up an upload in R2 and build the file state and client response
+ * Does NOT record the file in the Durable Object - the caller does that
+ *
+ * partUrlWindow limits how many part URLs are signed up front for
+ * multipart uploads (0 = none, clients fetch them from files/parts).
+ */
+export async function prepareFileUpload(
+  env: Env,
+  batchId: string,
+  body: StartFileUploadRequest,
+  partUrlWindow: number = PART_URL_WINDOW_SIZE
+): Promise<{ fileState: FileState; response: StartFileUploadResponse }> {
+  const { file_name, file_size, logical_path, content_type, cid, sha256, processing_config } = body;
+
+  // Construct R2 key
+  const r2Key = `staging/${batchId}${logical_path}`;
+
+  // Decide: multipart or simple upload?
+  if (file_size >= MULTIPART_THRESHOLD) {
+    // MULTIPART UPLOAD
+    const partSize = calculatePartSize(file_size);
+    const numParts = getTotalParts(file_size, partSize);
+
+    // Create multipart upload in R2
+    const multipartUpload = await env.STAGING_BUCKET.createMultipartUpload(r2Key, {
+      httpMetadata: {
+        contentType: content_type,
+      },
+    });
+
+    // Generate presigned URLs for the first window of parts
+    // (clients fetch the rest on demand from files/parts)
+    const presignedUrls = await generatePresignedUploadPartUrls(
+      env,
+      r2Key,
+      multipartUpload.uploadId,
+      Math.min(numParts, partUrlWindow)
+    );
+
+    const fileState: FileState = {
+      r2_key: r2Key,
+      file_name,
+      file_size,
+      logical_path,
+      content_type,
+      processing_config,
+      upload_type: 'multipart',
+      upload_id: multipartUpload.uploadId,
+      part_size: partSize,
+      status: 'uploading',
+      ...(cid && { cid }),
+    };
+
+    const response: StartFileUploadResponse = {
+      r2_key: r2Key,
+      upload_type: 'multipart',
+      upload_id: multipartUpload.uploadId,
+      part_size: partSize,
+      total_parts: numParts,
+      presigned_urls: presignedUrls,
+    };
+
+    return { fileState, response };
+  }
+
+  // SIMPLE UPLOAD
+  const presignedUrl = await generatePresignedPutUrl(env, r2Key, content_type, sha256);
+
+  const fileState: FileState = {
+    r2_key: r2Key,
+    file_name,
+    file_size,
+    logical_path,
+    content_type,
+    processing_config,
+    upload_type: 'simple',
+    status: 'uploading',
+    ...(cid && { cid }),
+    ...(sha256 && { sha256: sha256.toLowerCase() }),
+  };
+
+  const response: StartFileUploadResponse = {
+    r2_key: r2Key,
+    upload_type: 'simple',
+    presigned_url: presignedUrl,
+  };
+
+  return { fileState, response };
+}
+
+/**
+ * Finish an upload on the R2 side and verify the stored object
+ * Completes the multipart upload (if any), then checks existence, size
+ * and declared SHA-256. Does NOT mark the file completed in the Durable Object.
+ */
+export async function finishFileUpload(
+  env: Env,
+  file: FileState,
+  request: CompleteFileUploadRequest
+): Promise<{ ok: boolean; error?: string; checksum_sha256?: string }> {
+  const { upload_id, parts } = request;
+
+  // Complete multipart upload in R2 before verifying the object
+  if (file.upload_type === 'multipart') {
+    const partsError = validateMultipartCompletion(file, upload_id, parts);
+    if (partsError) {
+      return { ok: false, error: partsError };
+    }
+
+    const multipartUpload = env.STAGING_BUCKET.resumeMultipartUpload(
+      file.r2_key,
+      upload_id!
+    );
+
+    // Convert part_number to partNumber for R2 API
+    const r2Parts = parts!.map((part) => ({
+      partNumber: part.part_number,
+      etag: part.etag,
+    }));
+
+    try {
+      await multipartUpload.complete(r2Parts);
+    } catch (error) {
+      // A retry after R2 completed but the state update failed lands here;
+      // the object check below decides whether the upload actually exists
+      console.warn(`Multipart complete failed for ${file.r2_key}:`, error);
+      const existing = await env.STAGING_BUCKET.head(file.r2_key);
+      if (!existing) {
+        const message = error instanceof Error ? error.message : String(error);
+        return { ok: false, error: `Failed to complete multipart upload: ${message}` };
+      }
+    }
+  }
+
+  // Verify the object R2 actually has
+  const check = await verifyUploadedObject(env.STAGING_BUCKET, file);
+  if (!check.ok) {
+    return { ok: false, error: check.error };
+  }
+
+  return { ok: true, checksum_sha256: check.checksum_sha256 };
+}
@@ -0,0 +1,84 @@
+/**
+ * Upload integrity verification
+ * Checks that an uploaded object exists in R2 and matches what the client declared
+ */
+
+import type { FileState } from '../types';
+
+/**
+ * Result of verifying an uploaded object
+ */
+export interface IntegrityCheckResult {
+  ok: boolean;
+  error?: string;
+  /** SHA-256 (hex) reported by R2, if R2 has one for the object */
+  checksum_sha256?: string;
+}
+
+/**
+ * Validate a client-declared SHA-256 (64 hex characters)
+ */
+export function validateSha256(sha256: string): boolean {
+  return /^[0-9a-fA-F]{64}$/.test(sha256);
+}
+
+/**
+ * Convert a hex digest to base64 (the form x-amz-checksum-sha256 expects)
+ */
+export function hexToBase64(hex: string): string {
+  let binary = '';
+  for (let i = 0; i < hex.length; i += 2) {
+    binary += String.fromCharCode(parseInt(hex.slice(i, i + 2), 16));
+  }
+  return btoa(binary);
+}
+
+/**
+ * Convert a binary digest to lowercase hex
+ */
+export function bufferToHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/**
+ * Verify an uploaded object against the file's declared size and SHA-256
+ * Uses head() only - the object body is never read.
+ */
+export async function verifyUploadedObject(
+  bucket: R2Bucket,
+  file: FileState
+): Promise<IntegrityCheckResult> {
+  const object = await bucket.head(file.r2_key);
+  if (!object) {
+    return { ok: false, error: 'Uploaded object not found in R2' };
+  }
+
+  if (object.size !== file.file_size) {
+    return {
+      ok: false,
+      error: `Size mismatch: expected ${file.file_size} bytes, R2 has ${object.size} bytes`,
+    };
+  }
+
+  const r2Sha256 = object.checksums.sha256
+    ? bufferToHex(object.checksums.sha256)
+    : undefined;
+
+  if (file.sha256) {
+    // R2 validates x-amz-checksum-sha256 on upload, so a declared checksum
+    // must have been stored - a missing one means the header was not sent
+    if (!r2Sha256) {
+      return { ok: false, error: 'SHA-256 checksum missing from uploaded object' };
+    }
+    if (r2Sha256 !== file.sha256.toLowerCase()) {
+      return {
+        ok: false,
+        error: `SHA-256 mismatch: expected ${file.sha256.toLowerCase()}, R2 has ${r2Sha256}`,
+      };
+    }
+  }
+
+  return { ok: true, checksum_sha256: r2Sha256 };
+}
@@ -0,0 +1,123 @@
+/**
+ * Minimal JSON Schema validator
+ *
+ * Supports the subset of JSON Schema used by src/schemas: type, enum,
+ * const, required, properties, additionalProperties, items, minLength,
+ * minimum and pattern. Enough to enforce our own contracts at runtime
+ * without shipping a full validator in the worker.
+ */
+
+export interface JsonSchema {
+  $schema?: string;
+  $id?: string;
+  title?: string;
+  description?: string;
+  type?: JsonSchemaType | JsonSchemaType[];
+  enum?: unknown[];
+  const?: unknown;
+  required?: string[];
+  properties?: Record<string, JsonSchema>;
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  minLength?: number;
+  minimum?: number;
+  pattern?: string;
+}
+
+type JsonSchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null';
+
+const MAX_ERRORS = 20;
+
+/**
+ * Validate a value against a schema
+ * Returns a list of problems (empty if valid), each prefixed with its JSON path
+ */
+export function validateJsonSchema(schema: JsonSchema, value: unknown): string[] {
+  const errors: string[] = [];
+  validateNode(schema, value, '$', errors);
+  return errors.slice(0, MAX_ERRORS);
+}
+
+function validateNode(schema: JsonSchema, value: unknown, path: string, errors: string[]): void {
+  if (errors.length >= MAX_ERRORS) {
+    return;
+  }
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((type) => matchesType(type, value))) {
+      errors.push(`${path}: expected ${types.join(' | ')}`);
+      return;
+    }
+  }
+
+  if (schema.const !== undefined && value !== schema.const) {
+    errors.push(`${path}: must be ${JSON.stringify(schema.const)}`);
+  }
+
+  if (schema.enum !== undefined && !schema.enum.includes(value)) {
+    errors.push(`${path}: must be one of ${schema.enum.map((v) => JSON.stringify(v)).join(', ')}`);
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      errors.push(`${path}: must be at least ${schema.minLength} characters`);
+    }
+    if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) {
+      errors.push(`${path}: must match ${schema.pattern}`);
+    }
+  }
+
+  if (typeof value === 'number' && schema.minimum !== undefined && value < schema.minimum) {
+    errors.push(`${path}: must be >= ${schema.minimum}`);
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, i) => validateNode(schema.items!, item, `${path}[${i}]`, errors));
+  }
+
+  if (isObject(value)) {
+    for (const key of schema.required ?? []) {
+      if (value[key] === undefined) {
+        errors.push(`${path}.${key}: is required`);
+      }
+    }
+
+    for (const [key, child] of Object.entries(value)) {
+      if (child === undefined) {
+        continue; // Dropped by JSON serialization
+      }
+      const propertySchema = schema.properties?.[key];
+      if (propertySchema) {
+        validateNode(propertySchema, child, `${path}.${key}`, errors);
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}.${key}: unexpected property`);
+      } else if (typeof schema.additionalProperties === 'object') {
+        validateNode(schema.additionalProperties, child, `${path}.${key}`, errors);
+      }
+    }
+  }
+}
+
+function matchesType(type: JsonSchemaType, value: unknown): boolean {
+  switch (type) {
+    case 'string':
+      return typeof value === 'string';
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'integer':
+      return Number.isInteger(value);
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'object':
+      return isObject(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'null':
+      return value === null;
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
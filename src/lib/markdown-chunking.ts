@@ -0,0 +1,286 @@
+/**
+ * Markdown-Aware Chunking
+ *
+ * Splits Markdown on block boundaries instead of generic separators:
+ * fenced code blocks and tables are kept whole where they fit, chunks
+ * start at headings where possible, and each chunk records the heading
+ * path it falls under (e.g. "# Intro > ## Methods").
+ *
+ * Chunks are always contiguous slices of the source, so the offsets can
+ * be re-sliced from R2 like any other chunk.
+ */
+
+import {
+  calculateChunkSize,
+  getTextMeasure,
+  splitText,
+  DEFAULT_CHUNKING_CONFIG,
+  type ChunkingConfig,
+  type ChunkResult,
+} from './chunking';
+
+// ============================================================================
+// Block Parsing
+// ============================================================================
+
+type MarkdownBlockKind = 'heading' | 'code' | 'table' | 'text';
+
+interface MarkdownBlock {
+  kind: MarkdownBlockKind;
+  /** Start offset in the source (inclusive) */
+  start: number;
+  /** End offset in the source (exclusive, trailing newline not included) */
+  end: number;
+  /** Heading level 1-6 (headings only) */
+  level?: number;
+  /** Heading text (headings only) */
+  title?: string;
+}
+
+interface Line {
+  text: string;
+  start: number;
+  end: number;
+}
+
+const HEADING_PATTERN = /^ {0,3}(#{1,6})(?:[ \t]+(.*?))?(?:[ \t]+#+)?[ \t]*$/;
+const FENCE_PATTERN = /^ {0,3}(`{3,}|~{3,})/;
+const TABLE_SEPARATOR_PATTERN = /^ {0,3}\|?[ \t]*:?-+:?[ \t]*(\|[ \t]*:?-+:?[ \t]*)*\|?[ \t]*$/;
+
+function splitLines(text: string): Line[] {
+  const lines: Line[] = [];
+  let start = 0;
+
+  while (start <= text.length) {
+    const newline = text.indexOf('\n', start);
+    const end = newline === -1 ? text.length : newline;
+    // Treat \r\n like \n so patterns see the bare line
+    const lineEnd = end > start && text[end - 1] === '\r' ? end - 1 : end;
+    lines.push({ text: text.slice(start, lineEnd), start, end: lineEnd });
+    if (newline === -1) break;
+    start = newline + 1;
+  }
+
+  return lines;
+}
+
+function isBlank(line: Line): boolean {
+  return line.text.trim() === '';
+}
+
+function isTableStart(lines: Line[], i: number): boolean {
+  const header = lines[i];
+  const separator = lines[i + 1];
+  return (
+    header !== undefined &&
+    separator !== undefined &&
+    header.text.includes('|') &&
+    separator.text.includes('-') &&
+    TABLE_SEPARATOR_PATTERN.test(separator.text)
+  );
+}
+
+/**
+ * Parse Markdown into top-level blocks
+ * Only ATX headings (# Title) are recognised as headings.
+ */
+function parseBlocks(text: string): MarkdownBlock[] {
+  const lines = splitLines(text);
+  const blocks: MarkdownBlock[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i]!;
+
+    if (isBlank(line)) {
+      i++;
+      continue;
+    }
+
+    // Fenced code: runs to the matching closing fence (or end of file)
+    const fence = FENCE_PATTERN.exec(line.text);
+    if (fence) {
+      const marker = fence[1]!;
+      let j = i + 1;
+      while (j < lines.length) {
+        const closing = lines[j]!.text.trim();
+        if (closing.startsWith(marker) && /^[`~]+$/.test(closing) && closing[0] === marker[0]) {
+          break;
+        }
+        j++;
+      }
+      const last = lines[Math.min(j, lines.length - 1)]!;
+      blocks.push({ kind: 'code', start: line.start, end: last.end });
+      i = j + 1;
+      continue;
+    }
+
+    const heading = HEADING_PATTERN.exec(line.text);
+    if (heading) {
+      blocks.push({
+        kind: 'heading',
+        start: line.start,
+        end: line.end,
+        level: heading[1]!.length,
+        title: (heading[2] ?? '').trim(),
+      });
+      i++;
+      continue;
+    }
+
+    // Table: header row + separator row + body rows until a blank line
+    if (isTableStart(lines, i)) {
+      let j = i + 2;
+      while (j < lines.length && !isBlank(lines[j]!) && lines[j]!.text.includes('|')) {
+        j++;
+      }
+      blocks.push({ kind: 'table', start: line.start, end: lines[j - 1]!.end });
+      i = j;
+      continue;
+    }
+
+    // Text: consecutive lines up to a blank line or another block's start
+    let j = i + 1;
+    while (
+      j < lines.length &&
+      !isBlank(lines[j]!) &&
+      !FENCE_PATTERN.test(lines[j]!.text) &&
+      !HEADING_PATTERN.test(lines[j]!.text) &&
+      !isTableStart(lines, j)
+    ) {
+      j++;
+    }
+    blocks.push({ kind: 'text', start: line.start, end: lines[j - 1]!.end });
+    i = j;
+  }
+
+  return blocks;
+}
+
+// ============================================================================
+// Chunking
+// ============================================================================
+
+/**
+ * Format the open headings as "# Intro > ## Methods"
+ */
+function formatHeadingPath(headings: MarkdownBlock[]): string | undefined {
+  if (headings.length === 0) {
+    return undefined;
+  }
+  return headings.map((h) => `${'#'.repeat(h.level!)} ${h.title}`).join(' > ');
+}
+
+/**
+ * Chunk Markdown on block boundaries, recording each chunk's heading path
+ *
+ * Blocks are packed into chunks of up to the configured chunk size. A
+ * heading starts a new chunk unless the current one is still under a
+ * quarter of the chunk size, and is never left at the end of a chunk
+ * without the block it introduces. A single block larger than the chunk
+ * size is split on its own: code and tables on line boundaries without
+ * overlap, prose with the configured overlap. Overlap is not added
+ * between blocks.
+ */
+export function chunkMarkdown(
+  text: string,
+  config: ChunkingConfig = DEFAULT_CHUNKING_CONFIG
+): ChunkResult[] {
+  const measure = getTextMeasure(config);
+  const size = measure(text);
+
+  // Don't chunk if below minimum size
+  if (size < config.min_chunk_size) {
+    return [];
+  }
+
+  const chunkSize = calculateChunkSize(size, config);
+  const minHeadingBreak = Math.floor(chunkSize / 4);
+
+  const chunks: Omit<ChunkResult, 'id'>[] = [];
+  const headings: MarkdownBlock[] = [];
+  let current: {
+    start: number;
+    end: number;
+    size: number;
+    heading_path?: string;
+    heading_only: boolean;
+  } | null = null;
+
+  const pushChunk = (start: number, end: number, headingPath: string | undefined) => {
+    chunks.push({
+      text: text.slice(start, end),
+      char_start: start,
+      char_end: end,
+      ...(headingPath && { heading_path: headingPath }),
+    });
+  };
+
+  const flush = () => {
+    if (current) {
+      pushChunk(current.start, current.end, current.heading_path);
+      current = null;
+    }
+  };
+
+  for (const block of parseBlocks(text)) {
+    if (block.kind === 'heading') {
+      while (headings.length > 0 && headings[headings.length - 1]!.level! >= block.level!) {
+        headings.pop();
+      }
+      headings.push(block);
+
+      if (current && current.size >= minHeadingBreak) {
+        flush();
+      }
+    }
+
+    const headingPath = formatHeadingPath(headings);
+
+    // Block fits in the current chunk (size includes the gap since the last block)
+    const blockSize = measure(text.slice(current ? current.end : block.start, block.end));
+    if (current && current.size + blockSize <= chunkSize) {
+      current.end = block.end;
+      current.size += blockSize;
+      current.heading_only &&= block.kind === 'heading';
+      continue;
+    }
+
+    // Keep headings with the start of the block they introduce
+    const carriedStart: number | null =
+      current && current.heading_only && block.kind !== 'heading' &&
+      measure(text.slice(current.start, block.start)) <= minHeadingBreak
+        ? current.start
+        : null;
+    if (carriedStart === null) {
+      flush();
+    }
+    current = null;
+
+    const start: number = carriedStart ?? block.start;
+    const carriedSize: number = measure(text.slice(start, block.start));
+    const ownSize = measure(text.slice(block.start, block.end));
+    if (carriedSize + ownSize <= chunkSize) {
+      current = {
+        start,
+        end: block.end,
+        size: carriedSize + ownSize,
+        heading_path: headingPath,
+        heading_only: block.kind === 'heading',
+      };
+      continue;
+    }
+
+    // Oversized block - split it on its own (any carried headings join the first piece)
+    const overlap = block.kind === 'text' ? config.overlap : 0;
+    const pieceSize = chunkSize - carriedSize;
+    const spans = splitText(text.slice(block.start, block.end), pieceSize, overlap, measure);
+    spans.forEach((span, i) => {
+      pushChunk(i === 0 ? start : block.start + span.char_start, block.start + span.char_end, headingPath);
+    });
+  }
+
+  flush();
+
+  return chunks.map((chunk, index) => ({ id: `chunk_${index}`, ...chunk }));
+}
@@ -0,0 +1,351 @@
+/**
+ * Readable Text Extraction for HTML and XML
+ *
+ * Discovery chunks the text extracted from markup rather than the raw
+ * markup, so chunks aren't full of tags, scripts and styles. Extraction:
+ * - drops tags, comments, processing instructions and doctypes
+ * - drops the contents of script, style, noscript and template (HTML)
+ * - turns block-level elements (HTML) or element boundaries (XML) into
+ *   line / paragraph breaks, and collapses other whitespace
+ * - decodes character entities and keeps CDATA text
+ *
+ * Every extracted character remembers where it came from in the source, so
+ * chunk offsets in the extracted text can be mapped back to the source.
+ * Extraction is deterministic: the CHUNKING phase re-extracts from R2 and
+ * slices the same offsets.
+ */
+
+export type MarkupKind = 'html' | 'xml';
+
+export interface MarkupExtraction {
+  /** Extracted readable text */
+  text: string;
+  /**
+   * Source offset each extracted character came from (text.length entries).
+   * Separators are stored as ~offset of the tag or whitespace they replace.
+   */
+  positions: Int32Array;
+}
+
+// Elements whose contents are not readable text
+const SKIPPED_ELEMENTS = new Set(['script', 'style', 'noscript', 'template']);
+
+// Elements that end a line
+const LINE_ELEMENTS = new Set(['br', 'tr', 'li', 'dt', 'dd', 'option']);
+
+// Elements that end a paragraph
+const BLOCK_ELEMENTS = new Set([
+  'address', 'article', 'aside', 'blockquote', 'body', 'caption', 'dd', 'details',
+  'dialog', 'div', 'dl', 'fieldset', 'figcaption', 'figure', 'footer', 'form',
+  'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header', 'hr', 'html', 'main', 'nav', 'ol',
+  'p', 'pre', 'section', 'summary', 'table', 'tbody', 'tfoot', 'thead', 'title', 'ul',
+]);
+
+// Table cells are separated by a tab
+const CELL_ELEMENTS = new Set(['td', 'th']);
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  ndash: '–',
+  mdash: '—',
+  hellip: '…',
+  lsquo: '‘',
+  rsquo: '’',
+  ldquo: '“',
+  rdquo: '”',
+  copy: '©',
+  reg: '®',
+};
+
+const NO_BREAK = 0;
+const SPACE = 1;
+const CELL = 2;
+const LINE = 3;
+const PARAGRAPH = 4;
+
+const BREAK_TEXT = ['', ' ', '\t', '\n', '\n\n'];
+
+/**
+ * Collects extracted characters and their source positions
+ */
+class TextBuilder {
+  private readonly codes: Uint16Array;
+  readonly positions: Int32Array;
+  length = 0;
+  // Separator owed before the next character, and where it came from
+  private pending = NO_BREAK;
+  private pendingAt = 0;
+  private inPre = 0;
+
+  constructor(capacity: number) {
+    this.codes = new Uint16Array(capacity);
+    this.positions = new Int32Array(capacity);
+  }
+
+  /** Request a separator; the strongest one before the next text wins */
+  separate(kind: number, at: number): void {
+    if (kind > this.pending) {
+      this.pending = kind;
+      this.pendingAt = at;
+    }
+  }
+
+  enterPre(): void {
+    this.inPre++;
+  }
+
+  exitPre(): void {
+    this.inPre = Math.max(0, this.inPre - 1);
+  }
+
+  /** Add text that came from source[at..], one source unit per character */
+  addText(text: string, at: number, unitLength: number = 1): void {
+    for (let i = 0; i < text.length; i++) {
+      const ch = text[i]!;
+      const position = unitLength === 1 ? at + i : at;
+
+      if (this.inPre === 0 && /\s/.test(ch)) {
+        this.separate(SPACE, position);
+        continue;
+      }
+
+      this.flushSeparator();
+      this.push(ch.charCodeAt(0), position);
+    }
+  }
+
+  private flushSeparator(): void {
+    if (this.pending !== NO_BREAK && this.length > 0) {
+      for (const ch of BREAK_TEXT[this.pending]!) {
+        this.push(ch.charCodeAt(0), ~this.pendingAt);
+      }
+    }
+    this.pending = NO_BREAK;
+  }
+
+  private push(code: number, position: number): void {
+    // Output never outgrows the source: every separator replaces at least one
+    // whitespace character or a tag of three or more characters
+    if (this.length < this.codes.length) {
+      this.codes[this.length] = code;
+      this.positions[this.length] = position;
+      this.length++;
+    }
+  }
+
+  toString(): string {
+    const parts: string[] = [];
+    const step = 8192;
+    for (let i = 0; i < this.length; i += step) {
+      parts.push(String.fromCharCode(...this.codes.subarray(i, Math.min(i + step, this.length))));
+    }
+    return parts.join('');
+  }
+}
+
+function decodeEntity(entity: string): string | null {
+  if (entity.startsWith('#x') || entity.startsWith('#X')) {
+    const digits = entity.slice(2);
+    return /^[0-9a-f]+$/i.test(digits) ? fromCodePoint(parseInt(digits, 16)) : null;
+  }
+  if (entity.startsWith('#')) {
+    const digits = entity.slice(1);
+    return /^[0-9]+$/.test(digits) ? fromCodePoint(parseInt(digits, 10)) : null;
+  }
+  return NAMED_ENTITIES[entity] ?? null;
+}
+
+/**
+ * Character for a numeric reference, or null if it can't be encoded
+ * (out of range or a lone surrogate)
+ */
+function fromCodePoint(code: number): string | null {
+  if (code > 0x10ffff || (code >= 0xd800 && code <= 0xdfff)) {
+    return null;
+  }
+  return String.fromCodePoint(code);
+}
+
+/**
+ * Add a run of character data, decoding entities
+ */
+function addCharacterData(builder: TextBuilder, source: string, start: number, end: number): void {
+  let i = start;
+  while (i < end) {
+    const amp = source.indexOf('&', i);
+    const textEnd = amp === -1 || amp >= end ? end : amp;
+    builder.addText(source.slice(i, textEnd), i);
+    if (textEnd === end) {
+      return;
+    }
+
+    const semicolon = source.indexOf(';', amp);
+    const decoded =
+      semicolon !== -1 && semicolon < end && semicolon - amp <= 10
+        ? decodeEntity(source.slice(amp + 1, semicolon))
+        : null;
+    if (decoded === null) {
+      builder.addText('&', amp);
+      i = amp + 1;
+    } else {
+      builder.addText(decoded, amp, semicolon + 1 - amp);
+      i = semicolon + 1;
+    }
+  }
+}
+
+/**
+ * Find the '>' that ends the tag starting at i, skipping quoted attribute values
+ */
+function findTagEnd(source: string, i: number): number {
+  let quote: string | null = null;
+  for (let j = i + 1; j < source.length; j++) {
+    const ch = source[j];
+    if (quote) {
+      if (ch === quote) quote = null;
+    } else if (ch === '"' || ch === "'") {
+      quote = ch;
+    } else if (ch === '>') {
+      return j;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Extract readable text from HTML or XML
+ */
+export function extractMarkupText(source: string, kind: MarkupKind): MarkupExtraction {
+  const builder = new TextBuilder(source.length);
+  const isHtml = kind === 'html';
+  let i = 0;
+
+  while (i < source.length) {
+    const lt = source.indexOf('<', i);
+    if (lt === -1) {
+      addCharacterData(builder, source, i, source.length);
+      break;
+    }
+    addCharacterData(builder, source, i, lt);
+
+    // Comments
+    if (source.startsWith('<!--', lt)) {
+      const end = source.indexOf('-->', lt + 4);
+      i = end === -1 ? source.length : end + 3;
+      continue;
+    }
+
+    // CDATA is literal text
+    if (source.startsWith('<![CDATA[', lt)) {
+      const end = source.indexOf(']]>', lt + 9);
+      const textEnd = end === -1 ? source.length : end;
+      builder.addText(source.slice(lt + 9, textEnd), lt + 9);
+      i = end === -1 ? source.length : end + 3;
+      continue;
+    }
+
+    // A '<' that doesn't start a tag, doctype or processing instruction is text
+    if (!/[A-Za-z\/!?]/.test(source[lt + 1] ?? '')) {
+      builder.addText('<', lt);
+      i = lt + 1;
+      continue;
+    }
+
+    const tagEnd = findTagEnd(source, lt);
+    if (tagEnd === -1) {
+      // Unterminated tag - treat the rest as text
+      addCharacterData(builder, source, lt, source.length);
+      break;
+    }
+    i = tagEnd + 1;
+
+    // Doctype or processing instruction
+    const tag = /^<(\/?)([A-Za-z][\w:.-]*)/.exec(source.slice(lt, Math.min(tagEnd + 1, lt + 64)));
+    if (!tag) {
+      continue;
+    }
+
+    const closing = tag[1] === '/';
+    const name = isHtml ? tag[2]!.toLowerCase() : tag[2]!;
+    const selfClosing = source[tagEnd - 1] === '/';
+
+    if (!isHtml) {
+      // XML: every element boundary separates text
+      builder.separate(LINE, lt);
+      continue;
+    }
+
+    if (!closing && !selfClosing && SKIPPED_ELEMENTS.has(name)) {
+      const closePattern = new RegExp(`</${name}\\b[^>]*>`, 'ig');
+      closePattern.lastIndex = i;
+      const close = closePattern.exec(source);
+      i = close ? close.index + close[0].length : source.length;
+      builder.separate(SPACE, lt);
+      continue;
+    }
+
+    if (name === 'pre') {
+      if (closing) builder.exitPre();
+      else if (!selfClosing) builder.enterPre();
+    }
+
+    if (BLOCK_ELEMENTS.has(name)) {
+      builder.separate(PARAGRAPH, lt);
+    } else if (LINE_ELEMENTS.has(name)) {
+      builder.separate(LINE, lt);
+    } else if (CELL_ELEMENTS.has(name) && !closing) {
+      builder.separate(CELL, lt);
+    }
+  }
+
+  return {
+    text: builder.toString(),
+    positions: builder.positions.subarray(0, builder.length),
+  };
+}
+
+/**
+ * Map a range of the extracted text back to the source
+ * Returns the source range spanning the first to the last extracted character
+ */
+export function mapToSource(
+  source: string,
+  extraction: MarkupExtraction,
+  charStart: number,
+  charEnd: number
+): { source_start: number; source_end: number } {
+  const { positions } = extraction;
+  const first = positions[charStart];
+  const last = positions[charEnd - 1];
+  if (first === undefined || last === undefined || charEnd <= charStart) {
+    return { source_start: source.length, source_end: source.length };
+  }
+
+  const sourceStart = first < 0 ? ~first : first;
+
+  // An entity maps to its whole '&...;'; a separator ends where its tag starts
+  let sourceEnd: number;
+  if (last < 0) {
+    sourceEnd = source[~last] === '<' ? ~last : ~last + 1;
+  } else {
+    sourceEnd = last + 1;
+    const semicolon = source[last] === '&' ? source.indexOf(';', last) : -1;
+    if (semicolon !== -1 && semicolon - last <= 10 && decodeEntity(source.slice(last + 1, semicolon)) !== null) {
+      sourceEnd = semicolon + 1;
+    }
+  }
+
+  return { source_start: sourceStart, source_end: Math.max(sourceStart, sourceEnd) };
+}
+
+/**
+ * Component name for the text extracted from a markup file
+ */
+export function getExtractedTextName(filename: string): string {
+  return `${filename}.txt`;
+}
@@ -0,0 +1,127 @@
+/**
+ * Multipart upload utilities
+ * Uses the R2 S3-compatible API for operations the Workers binding lacks
+ */
+
+import { AwsClient } from 'aws4fetch';
+import type { Env, FileState } from '../types';
+import {
+  PART_SIZE,
+  MIN_PART_SIZE,
+  MAX_PART_SIZE,
+  MAX_MULTIPART_PARTS,
+  TARGET_MULTIPART_PARTS,
+} from '../types';
+
+const MIB = 1024 * 1024;
+
+// S3 ListParts returns at most 1000 parts per page
+const LIST_PARTS_PAGE_SIZE = 1000;
+
+/**
+ * Choose the part size for a multipart upload from the file size
+ * Aims for TARGET_MULTIPART_PARTS parts (rounded up to whole MiB), but never
+ * below R2's 5 MB minimum, so small files get few parts and large files
+ * stay well under R2's part limit.
+ */
+export function calculatePartSize(fileSize: number): number {
+  const forTargetParts = Math.ceil(fileSize / TARGET_MULTIPART_PARTS / MIB) * MIB;
+  const minForPartLimit = Math.ceil(fileSize / MAX_MULTIPART_PARTS / MIB) * MIB;
+  return Math.min(MAX_PART_SIZE, Math.max(MIN_PART_SIZE, forTargetParts, minForPartLimit));
+}
+
+/**
+ * Part size recorded for a file (older batches did not record it)
+ */
+export function getFilePartSize(file: FileState): number {
+  return file.part_size ?? PART_SIZE;
+}
+
+/**
+ * Total number of parts for a file at a given part size
+ */
+export function getTotalParts(fileSize: number, partSize: number): number {
+  return Math.ceil(fileSize / partSize);
+}
+
+/**
+ * Total number of parts for a started multipart file, at its recorded part size
+ */
+export function getFileTotalParts(file: FileState): number {
+  return getTotalParts(file.file_size, getFilePartSize(file));
+}
+
+export interface UploadedPart {
+  part_number: number;
+  etag: string;
+  size: number;
+}
+
+/**
+ * List the parts R2 already has for a multipart upload
+ * The Workers R2 binding has no listParts, so this calls ListParts
+ * on the S3-compatible endpoint and follows pagination.
+ *
+ * Throws 'Multipart upload not found' if the upload was completed or aborted.
+ */
+export async function listUploadedParts(
+  env: Env,
+  key: string,
+  uploadId: string
+): Promise<UploadedPart[]> {
+  const bucketName = 'arke-staging'; // Should match wrangler.jsonc
+
+  const aws = new AwsClient({
+    accessKeyId: env.R2_ACCESS_KEY_ID,
+    secretAccessKey: env.R2_SECRET_ACCESS_KEY,
+  });
+
+  const parts: UploadedPart[] = [];
+  let marker: string | undefined;
+
+  do {
+    const url = new URL(
+      `https://${env.R2_ACCOUNT_ID}.r2.cloudflarestorage.com/${bucketName}/${key}`
+    );
+    url.searchParams.set('uploadId', uploadId);
+    url.searchParams.set('max-parts', LIST_PARTS_PAGE_SIZE.toString());
+    if (marker) {
+      url.searchParams.set('part-number-marker', marker);
+    }
+
+    const response = await aws.fetch(url.toString(), { method: 'GET' });
+
+    if (response.status === 404) {
+      throw new Error('Multipart upload not found');
+    }
+    if (!response.ok) {
+      const error = await response.text();
+      throw new Error(`ListParts error ${response.status}: ${error}`);
+    }
+
+    const xml = await response.text();
+
+    for (const match of xml.matchAll(/<Part>([\s\S]*?)<\/Part>/g)) {
+      const body = match[1] ?? '';
+      parts.push({
+        part_number: parseInt(readXmlTag(body, 'PartNumber') ?? '0'),
+        etag: (readXmlTag(body, 'ETag') ?? '').replace(/&quot;/g, '"'),
+        size: parseInt(readXmlTag(body, 'Size') ?? '0'),
+      });
+    }
+
+    marker = readXmlTag(xml, 'IsTruncated') === 'true'
+      ? readXmlTag(xml, 'NextPartNumberMarker')
+      : undefined;
+  } while (marker);
+
+  return parts;
+}
+
+/**
+ * Read the text content of the first occurrence of a tag
+ */
+function readXmlTag(xml: string, tag: string): string | undefined {
+  const match = xml.match(new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`));
+  return match?.[1];
+}
@@ -5,14 +5,18 @@
 
 import { AwsClient } from 'aws4fetch';
 import type { Env } from '../types';
+import { hexToBase64 } from './integrity';
 
 /**
  * Generate a presigned URL for a simple PUT upload
+ * If a SHA-256 (hex) is given, x-amz-checksum-sha256 is signed into the URL,
+ * so the client must send that header and R2 rejects mismatched bodies.
  */
 export async function generatePresignedPutUrl(
   env: Env,
   key: string,
-  contentType: string
+  contentType: string,
+  sha256?: string
 ): Promise<string> {
   const bucketName = 'arke-staging'; // Should match wrangler.jsonc
 
@@ -29,6 +33,7 @@ export async function generatePresignedPutUrl(
     method: 'PUT',
     headers: {
       'Content-Type': contentType,
+      ...(sha256 && { 'x-amz-checksum-sha256': hexToBase64(sha256) }),
     },
     aws: {
       signQuery: true,
@@ -46,6 +51,20 @@ export async function generatePresignedUploadPartUrls(
   key: string,
   uploadId: string,
   numParts: number
+): Promise<Array<{ part_number: number; url: string }>> {
+  const partNumbers = Array.from({ length: numParts }, (_, i) => i + 1);
+  return generatePresignedUrlsForParts(env, key, uploadId, partNumbers);
+}
+
+/**
+ * Generate presigned URLs for specific multipart upload parts
+ * Used when resuming an upload to sign only the parts R2 does not yet have
+ */
+export async function generatePresignedUrlsForParts(
+  env: Env,
+  key: string,
+  uploadId: string,
+  partNumbers: number[]
 ): Promise<Array<{ part_number: number; url: string }>> {
   const bucketName = 'arke-staging';
 
@@ -56,7 +75,7 @@ export async function generatePresignedUploadPartUrls(
 
   const presignedUrls: Array<{ part_number: number; url: string }> = [];
 
-  for (let partNumber = 1; partNumber <= numParts; partNumber++) {
+  for (const partNumber of partNumbers) {
     const url = new URL(
       `https://${env.R2_ACCOUNT_ID}.r2.cloudflarestorage.com/${bucketName}/${key}`
     );
@@ -0,0 +1,145 @@
+/**
+ * Validation of preprocessor output (enqueue-processed)
+ *
+ * The preprocessor replaces the batch's file list wholesale, so its
+ * output is checked against what was actually uploaded: every file must
+ * live in this batch's staging prefix and exist in R2, every uploaded
+ * file must be accounted for (passed through or derived from), and every
+ * directory created by discovery must keep its PI.
+ */
+
+import type { EnqueueProcessedRequest, FileState } from '../types';
+import { validateLogicalPath } from './validation';
+
+const MAX_REPORTED_ERRORS = 20;
+const R2_LIST_LIMIT = 1000;
+
+/**
+ * Validate a processed file list against the original upload
+ * Returns a list of problems (empty if valid)
+ */
+export async function validateProcessedOutput(
+  bucket: R2Bucket,
+  batchId: string,
+  originalFiles: FileState[],
+  originalNodePis: Record<string, string>,
+  request: EnqueueProcessedRequest
+): Promise<string[]> {
+  const errors: string[] = [];
+  const prefix = `staging/${batchId}/`;
+  const originalKeys = new Set(originalFiles.map((f) => f.r2_key));
+  const directories = new Set(Object.keys(originalNodePis));
+  const accountedFor = new Set<string>();
+  const seenKeys = new Set<string>();
+
+  for (const [i, file] of request.files.entries()) {
+    if (!file || typeof file !== 'object') {
+      errors.push(`files[${i}]: must be an object`);
+      continue;
+    }
+
+    const label = typeof file.r2_key === 'string' ? file.r2_key : `files[${i}]`;
+
+    if (typeof file.r2_key !== 'string' || !file.r2_key.startsWith(prefix) || file.r2_key.includes('/../')) {
+      errors.push(`${label}: r2_key must be under ${prefix}`);
+      continue;
+    }
+    if (seenKeys.has(file.r2_key)) {
+      errors.push(`${label}: duplicate r2_key`);
+      continue;
+    }
+    seenKeys.add(file.r2_key);
+
+    if (typeof file.file_name !== 'string' || !file.file_name) {
+      errors.push(`${label}: missing file_name`);
+    }
+    if (typeof file.file_size !== 'number' || file.file_size < 0) {
+      errors.push(`${label}: invalid file_size`);
+    }
+    if (typeof file.content_type !== 'string' || !file.content_type) {
+      errors.push(`${label}: missing content_type`);
+    }
+
+    // Files must stay in a directory discovery created a PI for
+    if (typeof file.logical_path !== 'string' || !validateLogicalPath(file.logical_path)) {
+      errors.push(`${label}: invalid logical_path`);
+    } else if (directories.size > 0) {
+      const lastSlash = file.logical_path.lastIndexOf('/');
+      const directory = lastSlash > 0 ? file.logical_path.substring(0, lastSlash) : '/';
+      if (!directories.has(directory)) {
+        errors.push(`${label}: directory ${directory} is not part of this batch`);
+      }
+    }
+
+    // Outputs are either uploaded files passed through or derived from one
+    if (file.derived_from !== undefined) {
+      const { r2_key: sourceKey, transform } = file.derived_from ?? {};
+      if (typeof sourceKey !== 'string' || !originalKeys.has(sourceKey)) {
+        errors.push(`${label}: derived_from.r2_key is not an uploaded file in this batch`);
+      } else {
+        accountedFor.add(sourceKey);
+      }
+      if (typeof transform !== 'string' || !transform) {
+        errors.push(`${label}: missing derived_from.transform`);
+      }
+    } else if (originalKeys.has(file.r2_key)) {
+      accountedFor.add(file.r2_key);
+    } else {
+      errors.push(`${label}: not an uploaded file and has no derived_from record`);
+    }
+  }
+
+  for (const key of originalKeys) {
+    if (!accountedFor.has(key)) {
+      errors.push(`${key}: uploaded file missing from output (not passed through or derived from)`);
+    }
+  }
+
+  // Entities were created by discovery - every directory keeps its PI
+  for (const [path, pi] of Object.entries(originalNodePis)) {
+    const reported = request.node_pis?.[path];
+    if (!reported) {
+      errors.push(`node_pis: missing directory ${path}`);
+    } else if (reported !== pi) {
+      errors.push(`node_pis: ${path} is ${reported}, expected ${pi}`);
+    }
+  }
+
+  // Only hit R2 once the list itself is sound
+  if (errors.length === 0) {
+    const stored = await listObjectSizes(bucket, prefix);
+    for (const file of request.files) {
+      const size = stored.get(file.r2_key);
+      if (size === undefined) {
+        errors.push(`${file.r2_key}: object not found in R2`);
+      } else if (size !== file.file_size) {
+        errors.push(`${file.r2_key}: file_size ${file.file_size} does not match R2 (${size} bytes)`);
+      }
+    }
+  }
+
+  if (errors.length > MAX_REPORTED_ERRORS) {
+    const more = errors.length - MAX_REPORTED_ERRORS;
+    return [...errors.slice(0, MAX_REPORTED_ERRORS), `...and ${more} more`];
+  }
+  return errors;
+}
+
+/**
+ * Sizes of every object under a prefix, keyed by R2 key
+ * One list call per 1000 objects instead of a head() per file
+ */
+async function listObjectSizes(bucket: R2Bucket, prefix: string): Promise<Map<string, number>> {
+  const sizes = new Map<string, number>();
+  let cursor: string | undefined;
+
+  do {
+    const listing = await bucket.list({ prefix, cursor, limit: R2_LIST_LIMIT });
+    for (const obj of listing.objects) {
+      sizes.set(obj.key, obj.size);
+    }
+    cursor = listing.truncated ? listing.cursor : undefined;
+  } while (cursor);
+
+  return sizes;
+}
@@ -0,0 +1,72 @@
+/**
+ * Queue sending with oversized-payload offload
+ *
+ * Cloudflare Queues reject messages over 128 KB, and the PI maps in our
+ * messages grow with directory count. Messages above QUEUE_INLINE_MAX_BYTES
+ * are written to R2 and replaced by a QueuePayloadPointer; consumers check
+ * payload_format to tell which form they received.
+ *
+ * Every message is validated against its JSON Schema (src/schemas) before
+ * it is sent, so a malformed message fails here rather than downstream.
+ */
+
+import type { QueueEnvelope, QueuePayloadPointer } from '../types';
+import { QUEUE_ENVELOPE_VERSION } from '../types';
+import { validateJsonSchema, type JsonSchema } from './json-schema';
+import { queuePayloadPointerSchema } from '../schemas/queue-messages';
+
+// Leaves headroom under the 128 KB queue limit for serialization overhead
+const QUEUE_INLINE_MAX_BYTES = 100 * 1024;
+
+/**
+ * Send a message, offloading it to R2 if it is too large to send inline
+ * payloadName distinguishes payloads in the batch's _queue/ prefix
+ * Throws (without sending) if the message does not match schema
+ */
+export async function sendQueueMessage<T extends { batch_id: string }>(
+  queue: Queue,
+  bucket: R2Bucket,
+  payloadName: string,
+  message: T,
+  schema: JsonSchema
+): Promise<QueueEnvelope<T>> {
+  const inline: QueueEnvelope<T> = {
+    ...message,
+    envelope_version: QUEUE_ENVELOPE_VERSION,
+    payload_format: 'inline',
+  };
+  assertValid(schema, inline, payloadName);
+  const body = JSON.stringify(inline);
+  const bytes = new TextEncoder().encode(body).byteLength;
+
+  if (bytes <= QUEUE_INLINE_MAX_BYTES) {
+    await queue.send(inline);
+    return inline;
+  }
+
+  // Too large - store the full message and send a pointer
+  const payloadKey = `staging/${message.batch_id}/_queue/${payloadName}.json`;
+  await bucket.put(payloadKey, body, {
+    httpMetadata: { contentType: 'application/json' },
+  });
+
+  const pointer: QueuePayloadPointer = {
+    envelope_version: QUEUE_ENVELOPE_VERSION,
+    payload_format: 'r2',
+    batch_id: message.batch_id,
+    payload_r2_key: payloadKey,
+    payload_bytes: bytes,
+  };
+  assertValid(queuePayloadPointerSchema, pointer, payloadName);
+  await queue.send(pointer);
+
+  console.log(`[Queue] ${payloadName} for ${message.batch_id} is ${bytes} bytes, sent R2 pointer ${payloadKey}`);
+  return pointer;
+}
+
+function assertValid(schema: JsonSchema, value: unknown, payloadName: string): void {
+  const errors = validateJsonSchema(schema, value);
+  if (errors.length > 0) {
+    throw new Error(`Invalid ${payloadName} queue message: ${errors.join('; ')}`);
+  }
+}
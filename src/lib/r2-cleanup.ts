@@ -0,0 +1,84 @@
+/**
+ * R2 cleanup utilities
+ * Aborts outstanding multipart uploads and deletes staged objects
+ */
+
+import type { FileState } from '../types';
+
+// R2 delete() accepts at most 1000 keys per call
+const R2_DELETE_BATCH_SIZE = 1000;
+
+/**
+ * Abort an outstanding multipart upload
+ * Already-completed or already-aborted uploads are treated as success
+ */
+export async function abortMultipartUpload(
+  bucket: R2Bucket,
+  key: string,
+  uploadId: string
+): Promise<void> {
+  try {
+    const multipartUpload = bucket.resumeMultipartUpload(key, uploadId);
+    await multipartUpload.abort();
+  } catch (error) {
+    // R2 rejects aborts for uploads that no longer exist - nothing left to clean up
+    console.warn(`[Cleanup] Could not abort multipart upload ${uploadId} for ${key}:`, error);
+  }
+}
+
+/**
+ * Multipart uploads that were started but never completed
+ */
+export function getIncompleteUploads(files: FileState[]): FileState[] {
+  return files.filter(
+    (f) => f.upload_type === 'multipart' && f.status !== 'completed' && f.upload_id
+  );
+}
+
+/**
+ * Abort any multipart uploads that were started but never completed
+ * One subrequest per upload - callers bound how many files they pass
+ * Returns the number of uploads aborted
+ */
+export async function abortIncompleteUploads(
+  bucket: R2Bucket,
+  files: FileState[]
+): Promise<number> {
+  const pending = getIncompleteUploads(files);
+
+  await Promise.all(
+    pending.map((f) => abortMultipartUpload(bucket, f.r2_key, f.upload_id!))
+  );
+
+  return pending.length;
+}
+
+/**
+ * Delete every object under a prefix (e.g. "staging/{batchId}/")
+ * Returns the number of objects deleted
+ */
+export async function deleteStagedObjects(
+  bucket: R2Bucket,
+  prefix: string
+): Promise<number> {
+  let deleted = 0;
+  let cursor: string | undefined;
+
+  do {
+    const listing = await bucket.list({
+      prefix,
+      cursor,
+      limit: R2_DELETE_BATCH_SIZE,
+    });
+
+    const keys = listing.objects.map((obj) => obj.key);
+    if (keys.length > 0) {
+      await bucket.delete(keys);
+      deleted += keys.length;
+    }
+
+    cursor = listing.truncated ? listing.cursor : undefined;
+  } while (cursor);
+
+  return deleted;
+}
@@ -0,0 +1,314 @@
+/**
+ * Record-Aware Chunking for CSV and JSON
+ *
+ * Splits structured files on record boundaries so a chunk never starts
+ * mid-row or mid-element:
+ * - CSV: split between rows (quoted newlines respected); every chunk after
+ *   the first is prefixed with the header row (see ChunkStructure.header_chars)
+ * - JSON: a top-level array is split between elements, JSON Lines between lines
+ *
+ * Each chunk records the row / element range it covers. Records are not
+ * overlapped; a single record larger than a chunk is split on its own.
+ * Files that don't parse as records fall back to chunkText().
+ */
+
+import {
+  calculateChunkSize,
+  chunkText,
+  getTextMeasure,
+  splitText,
+  DEFAULT_CHUNKING_CONFIG,
+  type ChunkingConfig,
+  type ChunkResult,
+  type TextMeasure,
+} from './chunking';
+
+interface RecordSpan {
+  start: number;
+  end: number;
+}
+
+// ============================================================================
+// Record Packing
+// ============================================================================
+
+/**
+ * Pack consecutive records into chunks of at most chunkSize (measured units)
+ * Each chunk is prefixed with the file's first `prefix` characters (0 = none),
+ * which count towards the size. Ranges are record indexes.
+ */
+function packRecords(
+  text: string,
+  records: RecordSpan[],
+  chunkSize: number,
+  prefix: number,
+  measure: TextMeasure,
+  range: (first: number, last: number) => Partial<ChunkResult>
+): Omit<ChunkResult, 'id'>[] {
+  const chunks: Omit<ChunkResult, 'id'>[] = [];
+  const prefixSize = measure(text.slice(0, prefix));
+  let current: { start: number; end: number; size: number; first: number; last: number } | null = null;
+
+  const pushChunk = (start: number, end: number, first: number, last: number) => {
+    chunks.push({
+      text: text.slice(0, prefix) + text.slice(start, end),
+      char_start: start,
+      char_end: end,
+      ...(prefix > 0 && { header_chars: prefix }),
+      ...range(first, last),
+    });
+  };
+
+  records.forEach((record, index) => {
+    // Size of the record, including the separator since the previous one
+    const extension = current ? measure(text.slice(current.end, record.end)) : 0;
+    if (current && prefixSize + current.size + extension <= chunkSize) {
+      current.end = record.end;
+      current.size += extension;
+      current.last = index + 1;
+      return;
+    }
+
+    if (current) {
+      pushChunk(current.start, current.end, current.first, current.last);
+      current = null;
+    }
+
+    const recordSize = measure(text.slice(record.start, record.end));
+    if (prefixSize + recordSize <= chunkSize) {
+      current = { start: record.start, end: record.end, size: recordSize, first: index, last: index + 1 };
+      return;
+    }
+
+    // Oversized record - split it on its own
+    const pieces = splitText(text.slice(record.start, record.end), chunkSize - prefixSize, 0, measure);
+    for (const piece of pieces) {
+      pushChunk(record.start + piece.char_start, record.start + piece.char_end, index, index + 1);
+    }
+  });
+
+  if (current) {
+    const { start, end, first, last } = current;
+    pushChunk(start, end, first, last);
+  }
+
+  return chunks;
+}
+
+function withIds(chunks: Omit<ChunkResult, 'id'>[]): ChunkResult[] {
+  return chunks.map((chunk, index) => ({ id: `chunk_${index}`, ...chunk }));
+}
+
+// ============================================================================
+// CSV
+// ============================================================================
+
+/**
+ * Find row spans (line terminators excluded), ignoring newlines in quoted fields
+ */
+function scanCsvRows(text: string): RecordSpan[] {
+  const rows: RecordSpan[] = [];
+  let inQuotes = false;
+  let start = 0;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (ch === '"') {
+      inQuotes = !inQuotes; // An escaped "" toggles twice
+    } else if (ch === '\n' && !inQuotes) {
+      const end = i > start && text[i - 1] === '\r' ? i - 1 : i;
+      if (end > start) {
+        rows.push({ start, end });
+      }
+      start = i + 1;
+    }
+  }
+
+  if (start < text.length && text.slice(start).trim() !== '') {
+    rows.push({ start, end: text.length });
+  }
+
+  return rows;
+}
+
+/**
+ * Chunk CSV on row boundaries, repeating the header row in every chunk
+ * The first row is treated as the header.
+ */
+export function chunkCsv(
+  text: string,
+  config: ChunkingConfig = DEFAULT_CHUNKING_CONFIG
+): ChunkResult[] {
+  const measure = getTextMeasure(config);
+  const size = measure(text);
+
+  // Don't chunk if below minimum size
+  if (size < config.min_chunk_size) {
+    return [];
+  }
+
+  const rows = scanCsvRows(text);
+  if (rows.length < 2) {
+    return chunkText(text, config);
+  }
+
+  const chunkSize = calculateChunkSize(size, config);
+  const dataRows = rows.slice(1);
+
+  // Header plus its line terminator; only repeated if it leaves room for data
+  const headerChars = dataRows[0]!.start;
+  const repeatHeader = measure(text.slice(0, headerChars)) <= chunkSize / 2;
+
+  const chunks = packRecords(
+    text,
+    dataRows,
+    chunkSize,
+    repeatHeader ? headerChars : 0,
+    measure,
+    (first, last) => ({ row_start: first, row_end: last })
+  );
+
+  // The first chunk holds the header in place rather than as a prefix
+  const first = chunks[0];
+  if (first && first.char_start === headerChars) {
+    first.char_start = 0;
+    first.text = text.slice(0, first.char_end);
+    delete first.header_chars;
+  }
+
+  return withIds(chunks);
+}
+
+// ============================================================================
+// JSON / JSON Lines
+// ============================================================================
+
+function skipWhitespace(text: string, i: number): number {
+  while (i < text.length && /\s/.test(text[i]!)) {
+    i++;
+  }
+  return i;
+}
+
+/**
+ * Find the end of the JSON value starting at i (-1 if malformed)
+ * Only tracks strings and nesting - values are not fully validated.
+ */
+function skipJsonValue(text: string, i: number): number {
+  const first = text[i];
+  if (first === undefined) {
+    return -1;
+  }
+
+  if (first === '{' || first === '[' || first === '"') {
+    let depth = 0;
+    let inString = false;
+    for (let j = i; j < text.length; j++) {
+      const ch = text[j];
+      if (inString) {
+        if (ch === '\\') {
+          j++;
+        } else if (ch === '"') {
+          inString = false;
+          if (depth === 0) return j + 1;
+        }
+      } else if (ch === '"') {
+        inString = true;
+      } else if (ch === '{' || ch === '[') {
+        depth++;
+      } else if (ch === '}' || ch === ']') {
+        depth--;
+        if (depth === 0) return j + 1;
+        if (depth < 0) return -1;
+      }
+    }
+    return -1;
+  }
+
+  // Number, true, false or null
+  let j = i;
+  while (j < text.length && !/[\s,\]}]/.test(text[j]!)) {
+    j++;
+  }
+  return j > i ? j : -1;
+}
+
+/**
+ * Element spans of a top-level JSON array, or null if text isn't one
+ */
+function scanJsonArray(text: string): RecordSpan[] | null {
+  let i = skipWhitespace(text, 0);
+  if (text[i] !== '[') {
+    return null;
+  }
+  i = skipWhitespace(text, i + 1);
+
+  const elements: RecordSpan[] = [];
+  while (text[i] !== ']') {
+    const end = skipJsonValue(text, i);
+    if (end === -1) {
+      return null;
+    }
+    elements.push({ start: i, end });
+
+    i = skipWhitespace(text, end);
+    if (text[i] === ',') {
+      i = skipWhitespace(text, i + 1);
+    } else if (text[i] !== ']') {
+      return null;
+    }
+  }
+
+  // Nothing but whitespace may follow the array
+  return skipWhitespace(text, i + 1) === text.length ? elements : null;
+}
+
+/**
+ * Value spans of a JSON Lines file, or null if text isn't one
+ */
+function scanJsonLines(text: string): RecordSpan[] | null {
+  const values: RecordSpan[] = [];
+  let i = skipWhitespace(text, 0);
+
+  while (i < text.length) {
+    const end = skipJsonValue(text, i);
+    if (end === -1) {
+      return null;
+    }
+    values.push({ start: i, end });
+    i = skipWhitespace(text, end);
+  }
+
+  // A single value is a plain JSON document, not JSON Lines
+  return values.length > 1 ? values : null;
+}
+
+/**
+ * Chunk a JSON array or JSON Lines file on element boundaries
+ * Other JSON (e.g. a single top-level object) is chunked as plain text.
+ */
+export function chunkJson(
+  text: string,
+  config: ChunkingConfig = DEFAULT_CHUNKING_CONFIG
+): ChunkResult[] {
+  const measure = getTextMeasure(config);
+  const size = measure(text);
+
+  // Don't chunk if below minimum size
+  if (size < config.min_chunk_size) {
+    return [];
+  }
+
+  const elements = scanJsonArray(text) ?? scanJsonLines(text);
+  if (!elements || elements.length === 0) {
+    return chunkText(text, config);
+  }
+
+  const chunkSize = calculateChunkSize(size, config);
+  const chunks = packRecords(text, elements, chunkSize, 0, measure, (first, last) => ({
+    element_start: first,
+    element_end: last,
+  }));
+
+  return withIds(chunks);
+}
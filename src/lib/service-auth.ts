@@ -0,0 +1,119 @@
+/**
+ * Authentication for service-to-service callbacks
+ * (preprocessor and orchestrator -> worker)
+ *
+ * Callers sign "{timestamp}.{METHOD}.{path}.{body}" with HMAC-SHA256 using a
+ * shared secret and send:
+ *   X-Arke-Timestamp: <unix seconds>
+ *   X-Arke-Signature: sha256=<hex>
+ *
+ * The path includes the batch id, so a signature is only valid for the
+ * endpoint and batch it was made for. Each signature is accepted once per
+ * batch, so a captured request can't be replayed within the timestamp window.
+ */
+
+import type { Context } from 'hono';
+import type { Env } from '../types';
+import { getBatchStateStub } from './durable-object-helpers';
+
+export const SIGNATURE_TOLERANCE_SECONDS = 300; // Max clock skew / request age
+
+/**
+ * Verify a signed callback
+ * Returns null if authenticated, error message if not
+ */
+export async function authenticateServiceRequest(
+  c: Context<{ Bindings: Env }>,
+  secret: string | undefined,
+  body: string
+): Promise<string | null> {
+  return verifyServiceSignature(
+    secret,
+    c.req.header('X-Arke-Timestamp'),
+    c.req.header('X-Arke-Signature'),
+    getSignedContent(c.req.method, c.req.path, body)
+  );
+}
+
+/**
+ * Claim an authenticated callback's signature on its batch (replay protection)
+ * Call once the batch exists and the request is validated, just before
+ * acting on it, so rejected requests don't use up their signature
+ * Returns null if the signature is fresh, error message if already seen
+ */
+export async function claimServiceRequest(
+  c: Context<{ Bindings: Env }>,
+  batchId: string
+): Promise<string | null> {
+  const signature = c.req.header('X-Arke-Signature')!.toLowerCase();
+  const stub = getBatchStateStub(c.env.BATCH_STATE_DO, batchId);
+  const fresh: boolean = await stub.claimRequestSignature(signature);
+  return fresh ? null : 'Request already processed (replayed signature)';
+}
+
+/**
+ * Request content covered by the signature (after the timestamp)
+ */
+export function getSignedContent(method: string, path: string, body: string): string {
+  return `${method.toUpperCase()}.${path}.${body}`;
+}
+
+/**
+ * Verify a signed service request
+ * signedContent is what follows "{timestamp}." in the signed string
+ * Returns null if valid, error message if invalid
+ */
+export async function verifyServiceSignature(
+  secret: string | undefined,
+  timestampHeader: string | undefined,
+  signatureHeader: string | undefined,
+  signedContent: string
+): Promise<string | null> {
+  if (!secret) {
+    return 'Service authentication is not configured';
+  }
+
+  if (!timestampHeader || !signatureHeader) {
+    return 'Missing X-Arke-Timestamp or X-Arke-Signature header';
+  }
+
+  const timestamp = Number(timestampHeader);
+  if (!Number.isInteger(timestamp)) {
+    return 'Invalid X-Arke-Timestamp header';
+  }
+  if (Math.abs(Date.now() / 1000 - timestamp) > SIGNATURE_TOLERANCE_SECONDS) {
+    return 'Request timestamp outside allowed window';
+  }
+
+  const match = /^sha256=([0-9a-f]{64})$/i.exec(signatureHeader);
+  if (!match) {
+    return 'Invalid X-Arke-Signature header';
+  }
+
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['verify']
+  );
+
+  // crypto.subtle.verify compares in constant time
+  const valid = await crypto.subtle.verify(
+    'HMAC',
+    key,
+    hexToBytes(match[1]!),
+    encoder.encode(`${timestampHeader}.${signedContent}`)
+  );
+
+  return valid ? null : 'Invalid signature';
+}
+
+function hexToBytes(hex: string): Uint8Array {
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+}
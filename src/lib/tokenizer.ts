@@ -0,0 +1,97 @@
+/**
+ * Offline Token Count Approximation
+ *
+ * Estimates how many tokens a GPT-style BPE tokenizer would produce,
+ * without shipping a vocabulary. Good enough to size chunks for the AI
+ * phases; not an exact count for any particular model.
+ *
+ * Rules (per run of same-class characters):
+ * - ASCII letters: ~4 characters per token
+ * - digits: up to 3 digits per token
+ * - CJK ideographs, kana and hangul: 1 token per character
+ * - other letters (accented Latin, Cyrillic, Greek, Arabic, ...): ~2 characters per token
+ * - punctuation and symbols: 1 token per character
+ * - whitespace: a single space is merged into the following word; other
+ *   runs (newlines, indentation) count as 1 token
+ */
+
+type CharClass = 'letter' | 'digit' | 'space' | 'cjk' | 'other_letter' | 'symbol';
+
+const OTHER_LETTER = /\p{L}|\p{M}/u;
+const WHITESPACE = /\s/u;
+
+function isCjk(code: number): boolean {
+  return (
+    (code >= 0x3040 && code <= 0x30ff) || // Hiragana, Katakana
+    (code >= 0x3400 && code <= 0x4dbf) || // CJK Extension A
+    (code >= 0x4e00 && code <= 0x9fff) || // CJK Unified Ideographs
+    (code >= 0xac00 && code <= 0xd7af) || // Hangul syllables
+    (code >= 0xf900 && code <= 0xfaff) || // CJK Compatibility Ideographs
+    (code >= 0x20000 && code <= 0x2fa1f) // CJK Extensions B+
+  );
+}
+
+function classify(code: number, text: string, index: number, width: number): CharClass {
+  if (code < 0x80) {
+    if ((code >= 0x41 && code <= 0x5a) || (code >= 0x61 && code <= 0x7a)) return 'letter';
+    if (code >= 0x30 && code <= 0x39) return 'digit';
+    if (code === 0x20 || (code >= 0x09 && code <= 0x0d)) return 'space';
+    return 'symbol';
+  }
+  if (isCjk(code)) return 'cjk';
+  const char = text.slice(index, index + width);
+  if (WHITESPACE.test(char)) return 'space';
+  if (OTHER_LETTER.test(char)) return 'other_letter';
+  return 'symbol';
+}
+
+function tokensForRun(charClass: CharClass, length: number, singleSpace: boolean): number {
+  switch (charClass) {
+    case 'letter':
+      return Math.ceil(length / 4);
+    case 'digit':
+      return Math.ceil(length / 3);
+    case 'other_letter':
+      return Math.ceil(length / 2);
+    case 'space':
+      return singleSpace ? 0 : 1;
+    case 'cjk':
+    case 'symbol':
+      return length;
+  }
+}
+
+/**
+ * Estimate the number of tokens in text
+ */
+export function estimateTokens(text: string): number {
+  let tokens = 0;
+  let runClass: CharClass | null = null;
+  let runStart = 0;
+  let runLength = 0; // In code points
+
+  let i = 0;
+  while (i < text.length) {
+    const code = text.codePointAt(i)!;
+    const width = code > 0xffff ? 2 : 1;
+    const charClass = classify(code, text, i, width);
+
+    if (charClass !== runClass) {
+      if (runClass !== null) {
+        tokens += tokensForRun(runClass, runLength, runLength === 1 && text[runStart] === ' ');
+      }
+      runClass = charClass;
+      runStart = i;
+      runLength = 0;
+    }
+
+    runLength++;
+    i += width;
+  }
+
+  if (runClass !== null) {
+    tokens += tokensForRun(runClass, runLength, runLength === 1 && text[runStart] === ' ');
+  }
+
+  return tokens;
+}
@@ -2,7 +2,8 @@
  * Validation utilities for file uploads
  */
 
-import type { CustomPrompts } from '../types';
+import type { CustomPrompts, FileState, CompletedPart } from '../types';
+import { resolveChunkingConfig, type ChunkingConfig } from './chunking';
 
 /**
  * Validate file size
@@ -89,6 +90,35 @@ export function validateProcessingConfig(config: any): string | null {
   return null; // Valid
 }
 
+/**
+ * Validate multipart completion params against the file's upload
+ * Returns null if valid, error message if invalid
+ */
+export function validateMultipartCompletion(
+  file: FileState,
+  uploadId: string | undefined,
+  parts: CompletedPart[] | undefined
+): string | null {
+  if (!uploadId || !parts || !Array.isArray(parts)) {
+    return 'Missing upload_id or parts for multipart upload';
+  }
+
+  if (uploadId !== file.upload_id) {
+    return 'upload_id mismatch';
+  }
+
+  for (const part of parts) {
+    if (
+      typeof part.part_number !== 'number' ||
+      typeof part.etag !== 'string'
+    ) {
+      return 'Invalid parts format';
+    }
+  }
+
+  return null; // Valid
+}
+
 /**
  * Validate parent PI format (26-character ULID)
  * Origin block: "00000000000000000000000000" (26 zeros)
@@ -173,6 +203,119 @@ export function validateCustomPrompts(customPrompts: CustomPrompts | undefined):
   return null; // Valid
 }
 
+// Bounds for client-supplied chunking configs
+const CHUNK_SIZE_MIN = 100;
+const CHUNK_SIZE_MAX = 100000;
+const TARGET_CHUNKS_MAX = 1000;
+const MAX_CHUNKING_DIRECTORIES = 100;
+
+/**
+ * Validate a per-batch chunking config (and its directory overrides)
+ * Returns null if valid, error message if invalid
+ */
+export function validateChunkingConfig(config: any): string | null {
+  if (config === undefined) {
+    return null; // Optional field
+  }
+
+  if (!config || typeof config !== 'object' || Array.isArray(config)) {
+    return 'chunking_config must be an object';
+  }
+
+  const { directories, ...batchOverrides } = config;
+  const overridesError = validateChunkingOverrides(batchOverrides, 'chunking_config');
+  if (overridesError) {
+    return overridesError;
+  }
+
+  if (directories !== undefined) {
+    if (!directories || typeof directories !== 'object' || Array.isArray(directories)) {
+      return 'chunking_config.directories must be an object';
+    }
+
+    const paths = Object.keys(directories);
+    if (paths.length > MAX_CHUNKING_DIRECTORIES) {
+      return `chunking_config.directories has more than ${MAX_CHUNKING_DIRECTORIES} entries`;
+    }
+
+    for (const path of paths) {
+      if (!validateRootPath(path) || (path !== '/' && path.endsWith('/'))) {
+        return `chunking_config.directories: invalid directory path "${path}"`;
+      }
+      const error = validateChunkingOverrides(directories[path], `chunking_config.directories["${path}"]`);
+      if (error) {
+        return error;
+      }
+    }
+  }
+
+  // Check the configs that will actually be used, since overrides are
+  // layered over the batch config and the defaults
+  const effectivePaths = ['/', ...Object.keys(directories ?? {})];
+  for (const path of effectivePaths) {
+    const error = validateEffectiveChunkingConfig(resolveChunkingConfig(config, path), path);
+    if (error) {
+      return error;
+    }
+  }
+
+  return null;
+}
+
+function validateChunkingOverrides(overrides: any, field: string): string | null {
+  if (!overrides || typeof overrides !== 'object' || Array.isArray(overrides)) {
+    return `${field} must be an object`;
+  }
+
+  for (const [key, value] of Object.entries(overrides)) {
+    switch (key) {
+      case 'unit':
+        if (value !== 'chars' && value !== 'tokens') {
+          return `${field}.unit must be "chars" or "tokens"`;
+        }
+        break;
+      case 'algorithm':
+        if (value !== 'adaptive' && value !== 'fixed') {
+          return `${field}.algorithm must be "adaptive" or "fixed"`;
+        }
+        break;
+      case 'target_chunks':
+        if (!Number.isInteger(value) || (value as number) < 1 || (value as number) > TARGET_CHUNKS_MAX) {
+          return `${field}.target_chunks must be an integer between 1 and ${TARGET_CHUNKS_MAX}`;
+        }
+        break;
+      case 'min_chunk_size':
+      case 'max_chunk_size':
+        if (!Number.isInteger(value) || (value as number) < CHUNK_SIZE_MIN || (value as number) > CHUNK_SIZE_MAX) {
+          return `${field}.${key} must be an integer between ${CHUNK_SIZE_MIN} and ${CHUNK_SIZE_MAX}`;
+        }
+        break;
+      case 'overlap':
+        if (!Number.isInteger(value) || (value as number) < 0) {
+          return `${field}.overlap must be a non-negative integer`;
+        }
+        break;
+      default:
+        return `${field}: unknown field "${key}"`;
+    }
+  }
+
+  return null;
+}
+
+function validateEffectiveChunkingConfig(config: ChunkingConfig, path: string): string | null {
+  if (config.min_chunk_size > config.max_chunk_size) {
+    return `chunking_config for "${path}": min_chunk_size (${config.min_chunk_size}) exceeds max_chunk_size (${config.max_chunk_size})`;
+  }
+
+  // Overlap must leave room for new text in every chunk
+  if (config.overlap >= config.min_chunk_size) {
+    return `chunking_config for "${path}": overlap (${config.overlap}) must be less than min_chunk_size (${config.min_chunk_size})`;
+  }
+
+  return null;
+}
+
 /**
  * Permission check response from collections worker
  */
@@ -0,0 +1,108 @@
+/**
+ * Outbound lifecycle webhooks
+ * Payloads are signed with HMAC-SHA256 over "{timestamp}.{body}" using the
+ * batch's callback_secret; delivery and retries are driven by the
+ * BatchStateObject alarm.
+ */
+
+import type { WebhookDelivery } from '../types';
+import { bufferToHex } from './integrity';
+
+const WEBHOOK_TIMEOUT_MS = 10000;
+const MAX_CALLBACK_SECRET_LENGTH = 256;
+
+/**
+ * Validate callback_url / callback_secret from an init request
+ * Both or neither must be given - webhooks are always signed
+ * Returns null if valid, error message if invalid
+ */
+export function validateWebhookConfig(
+  callbackUrl: unknown,
+  callbackSecret: unknown
+): string | null {
+  if (callbackUrl === undefined) {
+    return callbackSecret === undefined ? null : 'callback_secret requires callback_url';
+  }
+
+  if (typeof callbackUrl !== 'string') {
+    return 'callback_url must be a string';
+  }
+
+  let url: URL;
+  try {
+    url = new URL(callbackUrl);
+  } catch {
+    return 'callback_url must be a valid URL';
+  }
+  if (url.protocol !== 'https:') {
+    return 'callback_url must use https';
+  }
+
+  if (callbackSecret === undefined) {
+    return 'callback_url requires callback_secret';
+  }
+  if (typeof callbackSecret !== 'string' || callbackSecret.length === 0) {
+    return 'callback_secret must be a non-empty string';
+  }
+  if (callbackSecret.length > MAX_CALLBACK_SECRET_LENGTH) {
+    return `callback_secret exceeds ${MAX_CALLBACK_SECRET_LENGTH} characters`;
+  }
+
+  return null; // Valid
+}
+
+/**
+ * HMAC-SHA256 signature (hex) of "{timestamp}.{body}"
+ */
+export async function signWebhookPayload(
+  secret: string,
+  timestamp: string,
+  body: string
+): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(`${timestamp}.${body}`));
+  return bufferToHex(signature);
+}
+
+/**
+ * POST one delivery attempt
+ * Never throws - network errors and non-2xx responses are returned as ok: false
+ */
+export async function sendWebhook(
+  url: string,
+  secret: string,
+  delivery: WebhookDelivery
+): Promise<{ ok: boolean; status?: number; error?: string }> {
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = Math.floor(Date.now() / 1000).toString();
+
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+    'X-Arke-Event': delivery.event,
+    'X-Arke-Delivery': delivery.id,
+    'X-Arke-Timestamp': timestamp,
+    'X-Arke-Signature': `sha256=${await signWebhookPayload(secret, timestamp, body)}`,
+  };
+
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers,
+      body,
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+    });
+    if (!response.ok) {
+      return { ok: false, status: response.status, error: `HTTP ${response.status}` };
+    }
+    return { ok: true, status: response.status };
+  } catch (error) {
+    return { ok: false, error: error instanceof Error ? error.message : String(error) };
+  }
+}
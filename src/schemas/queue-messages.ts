@@ -0,0 +1,166 @@
+/**
+ * JSON Schemas for queue messages
+ *
+ * These are the contracts for PREPROCESS_QUEUE and BATCH_QUEUE. The worker
+ * validates every message against them before sending (lib/queue.ts), and
+ * serves them from GET /api/schemas/:name so the preprocessor and
+ * orchestrator can validate against the same definitions.
+ *
+ * Keep in sync with PreprocessorQueueMessage / QueueMessage in types.ts and
+ * bump QUEUE_SCHEMA_VERSION on breaking changes.
+ */
+
+import type { JsonSchema } from '../lib/json-schema';
+import { QUEUE_ENVELOPE_VERSION, QUEUE_SCHEMA_VERSION } from '../types';
+
+const JSON_SCHEMA_DRAFT = 'https://json-schema.org/draft/2020-12/schema';
+
+const stringMap: JsonSchema = {
+  type: 'object',
+  additionalProperties: { type: 'string' },
+};
+
+const customPrompts: JsonSchema = {
+  type: 'object',
+  properties: {
+    general: { type: 'string' },
+    reorganization: { type: 'string' },
+    pinax: { type: 'string' },
+    description: { type: 'string' },
+    cheimarros: { type: 'string' },
+  },
+};
+
+const processingConfig: JsonSchema = {
+  type: 'object',
+  required: ['ocr', 'pinax', 'cheimarros', 'describe'],
+  properties: {
+    ocr: { type: 'boolean' },
+    reorganize: { type: 'boolean' },
+    pinax: { type: 'boolean' },
+    cheimarros: { type: 'boolean' },
+    describe: { type: 'boolean' },
+  },
+};
+
+// Fields added by sendQueueMessage to inline messages
+const inlineEnvelope: Record<string, JsonSchema> = {
+  envelope_version: { type: 'integer', const: QUEUE_ENVELOPE_VERSION },
+  payload_format: { type: 'string', const: 'inline' },
+};
+
+/**
+ * PREPROCESS_QUEUE message (PreprocessorQueueMessage)
+ */
+export const preprocessorQueueMessageSchema: JsonSchema = {
+  $schema: JSON_SCHEMA_DRAFT,
+  $id: `urn:arke:ingest:preprocessor-queue-message:v${QUEUE_SCHEMA_VERSION}`,
+  title: 'PreprocessorQueueMessage',
+  type: 'object',
+  required: [
+    'schema_version',
+    'batch_id',
+    'manifest_r2_key',
+    'r2_prefix',
+    'uploader',
+    'root_path',
+    'parent_pi',
+    'total_files',
+    'total_bytes',
+    'uploaded_at',
+    'finalized_at',
+    'metadata',
+    'root_pi',
+    'node_pis',
+    'node_tips',
+    'node_versions',
+  ],
+  properties: {
+    schema_version: { type: 'integer', const: QUEUE_SCHEMA_VERSION },
+    ...inlineEnvelope,
+    batch_id: { type: 'string', minLength: 1 },
+    manifest_r2_key: { type: 'string', minLength: 1 },
+    r2_prefix: { type: 'string', minLength: 1 },
+    uploader: { type: 'string' },
+    root_path: { type: 'string', pattern: '^/' },
+    parent_pi: { type: 'string', minLength: 1 },
+    total_files: { type: 'integer', minimum: 0 },
+    total_bytes: { type: 'integer', minimum: 0 },
+    uploaded_at: { type: 'string' },
+    finalized_at: { type: 'string' },
+    metadata: { type: 'object' },
+    custom_prompts: customPrompts,
+    root_pi: { type: 'string', minLength: 1 },
+    node_pis: stringMap,
+    node_tips: stringMap,
+    node_versions: {
+      type: 'object',
+      additionalProperties: { type: 'integer', minimum: 0 },
+    },
+  },
+  additionalProperties: false,
+};
+
+/**
+ * BATCH_QUEUE message (QueueMessage)
+ */
+export const batchQueueMessageSchema: JsonSchema = {
+  $schema: JSON_SCHEMA_DRAFT,
+  $id: `urn:arke:ingest:batch-queue-message:v${QUEUE_SCHEMA_VERSION}`,
+  title: 'QueueMessage',
+  type: 'object',
+  required: ['schema_version', 'batch_id', 'root_pi', 'pis'],
+  properties: {
+    schema_version: { type: 'integer', const: QUEUE_SCHEMA_VERSION },
+    ...inlineEnvelope,
+    batch_id: { type: 'string', minLength: 1 },
+    root_pi: { type: 'string', minLength: 1 },
+    pis: {
+      type: 'array',
+      items: {
+        type: 'object',
+        required: ['pi', 'children_pi', 'processing_config'],
+        properties: {
+          pi: { type: 'string', minLength: 1 },
+          parent_pi: { type: 'string', minLength: 1 },
+          children_pi: { type: 'array', items: { type: 'string', minLength: 1 } },
+          processing_config: processingConfig,
+        },
+        additionalProperties: false,
+      },
+    },
+    parent_pi: { type: 'string', minLength: 1 },
+    custom_prompts: customPrompts,
+    custom_note: { type: 'string' },
+    institution: { type: 'string' },
+  },
+  additionalProperties: false,
+};
+
+/**
+ * Pointer sent in place of an oversized message (QueuePayloadPointer)
+ */
+export const queuePayloadPointerSchema: JsonSchema = {
+  $schema: JSON_SCHEMA_DRAFT,
+  $id: `urn:arke:ingest:queue-payload-pointer:v${QUEUE_ENVELOPE_VERSION}`,
+  title: 'QueuePayloadPointer',
+  type: 'object',
+  required: ['envelope_version', 'payload_format', 'batch_id', 'payload_r2_key', 'payload_bytes'],
+  properties: {
+    envelope_version: { type: 'integer', const: QUEUE_ENVELOPE_VERSION },
+    payload_format: { type: 'string', const: 'r2' },
+    batch_id: { type: 'string', minLength: 1 },
+    payload_r2_key: { type: 'string', minLength: 1 },
+    payload_bytes: { type: 'integer', minimum: 0 },
+  },
+  additionalProperties: false,
+};
+
+/**
+ * Schemas by the name they are served under
+ */
+export const QUEUE_SCHEMAS: Record<string, JsonSchema> = {
+  'preprocessor-queue-message': preprocessorQueueMessageSchema,
+  'batch-queue-message': batchQueueMessageSchema,
+  'queue-payload-pointer': queuePayloadPointerSchema,
+};
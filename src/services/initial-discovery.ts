@@ -5,8 +5,8 @@
  * Returns root_pi immediately to clients.
  *
  * Uses operation-based batching to avoid subrequest limits:
- * - UPLOADING phase: Upload N files per alarm, prepare chunk data
- * - CHUNKING phase: Upload chunk CIDs
+ * - UPLOADING phase: Upload N files per alarm, compute chunk offsets
+ * - CHUNKING phase: Upload chunks (text re-read from R2, never kept in state)
  * - PUBLISHING phase: Create N entities per alarm (includes chunks.json)
  * - RELATIONSHIPS phase: Attach to parent
  */
@@ -15,25 +15,44 @@ import type {
   Env,
   BatchManifest,
   DiscoveryState,
+  DiscoveryPhase,
   DiscoveryNode,
   DiscoveryResult,
   DiscoveryTextFile,
   DiscoveryChunk,
+  DiscoveryError,
+  DiscoveryOutcome,
 } from '../types';
 import { IPFSWrapperClient } from './ipfs-wrapper';
 import {
   chunkText,
   shouldChunk,
   buildChunksManifest,
+  resolveChunkingConfig,
+  pickChunkStructure,
+  getChunkContent,
+  getTextMeasure,
   DEFAULT_CHUNKING_CONFIG,
+  type BatchChunkingConfig,
+  type ChunkingConfig,
   type ChunkResult,
 } from '../lib/chunking';
+import { chunkMarkdown } from '../lib/markdown-chunking';
+import { estimateTokens } from '../lib/tokenizer';
+import { chunkCsv, chunkJson } from '../lib/record-chunking';
+import {
+  extractMarkupText,
+  mapToSource,
+  getExtractedTextName,
+  type MarkupExtraction,
+} from '../lib/markup-extraction';
 
 // Text file extensions to upload to IPFS during initial discovery
 const TEXT_EXTENSIONS = new Set([
   'md',
   'txt',
   'json',
+  'jsonl',
   'xml',
   'csv',
   'html',
@@ -46,12 +65,55 @@ const UPLOAD_BATCH_SIZE = 100; // Files to upload per alarm iteration
 const CHUNK_UPLOAD_BATCH_SIZE = 200; // Chunks to upload per alarm iteration (chunks are small)
 const ENTITY_BATCH_SIZE = 100; // Entities to create per alarm iteration
 
+/**
+ * Called right after a node is published (entity created) so the caller
+ * can persist it before anything else can fail. A retried PUBLISHING
+ * batch then sees the node as published and reuses its PI instead of
+ * creating a duplicate entity.
+ */
+export type NodePublishedCallback = (node: DiscoveryNode) => void | Promise<void>;
+
+function getExtension(filename: string): string {
+  return filename.split('.').pop()?.toLowerCase() || '';
+}
+
 /**
  * Check if a file is a text file based on extension
  */
 function isTextFile(filename: string): boolean {
-  const ext = filename.split('.').pop()?.toLowerCase() || '';
-  return TEXT_EXTENSIONS.has(ext);
+  return TEXT_EXTENSIONS.has(getExtension(filename));
+}
+
+/**
+ * Extract readable text from an HTML/XML file (null for other formats)
+ */
+function extractFileText(filename: string, content: string): MarkupExtraction | null {
+  switch (getExtension(filename)) {
+    case 'html':
+    case 'htm':
+      return extractMarkupText(content, 'html');
+    case 'xml':
+      return extractMarkupText(content, 'xml');
+    default:
+      return null;
+  }
+}
+
+/**
+ * Chunk a text file with the chunker suited to its format
+ */
+function chunkTextFile(filename: string, content: string, config: ChunkingConfig): ChunkResult[] {
+  switch (getExtension(filename)) {
+    case 'md':
+      return chunkMarkdown(content, config);
+    case 'csv':
+      return chunkCsv(content, config);
+    case 'json':
+    case 'jsonl':
+      return chunkJson(content, config);
+    default:
+      return chunkText(content, config);
+  }
 }
 
 /**
@@ -59,8 +121,12 @@ function isTextFile(filename: string): boolean {
  *
  * Creates DiscoveryNode for each directory and classifies files.
  * Text files are marked for upload, binary files are skipped (handled by preprocessor).
+ * Each node records its effective chunking config (batch config + directory overrides).
  */
-export function buildDiscoveryTree(manifest: BatchManifest): DiscoveryState {
+export function buildDiscoveryTree(
+  manifest: BatchManifest,
+  chunkingConfig?: BatchChunkingConfig
+): DiscoveryState {
   const nodes: Record<string, DiscoveryNode> = {};
   const allPaths = new Set<string>();
   let totalFiles = 0;
@@ -77,6 +143,7 @@ export function buildDiscoveryTree(manifest: BatchManifest): DiscoveryState {
       depth,
       children_paths: [],
       text_files: [],
+      chunking_config: resolveChunkingConfig(chunkingConfig, dirPath),
       published: false,
     };
 
@@ -160,9 +227,69 @@ export function buildDiscoveryTree(manifest: BatchManifest): DiscoveryState {
   };
 }
 
+/**
+ * Identifies the item a discovery error belongs to
+ */
+type DiscoveryErrorTarget = Pick<DiscoveryError, 'path' | 'filename' | 'chunk_id' | 'phase'>;
+
+function isSameErrorTarget(error: DiscoveryError, target: DiscoveryErrorTarget): boolean {
+  return (
+    error.path === target.path &&
+    error.filename === target.filename &&
+    error.chunk_id === target.chunk_id &&
+    error.phase === target.phase
+  );
+}
+
+/**
+ * Record a skipped item in state.errors
+ * Repeated failures of the same item (after a retry) bump its attempt count
+ */
+function recordDiscoveryError(
+  state: DiscoveryState,
+  target: DiscoveryErrorTarget,
+  error: unknown
+): void {
+  const message = error instanceof Error ? error.message : String(error);
+  const now = new Date().toISOString();
+
+  state.errors ??= [];
+  const existing = state.errors.find((e) => isSameErrorTarget(e, target));
+  if (existing) {
+    existing.message = message;
+    existing.attempts++;
+    existing.last_attempt_at = now;
+    return;
+  }
+
+  state.errors.push({
+    ...target,
+    message,
+    attempts: 1,
+    last_attempt_at: now,
+  });
+}
+
+/**
+ * Drop the error for an item that has now succeeded (after a retry)
+ */
+function clearDiscoveryError(state: DiscoveryState, target: DiscoveryErrorTarget): void {
+  if (state.errors) {
+    state.errors = state.errors.filter((e) => !isSameErrorTarget(e, target));
+  }
+}
+
+/**
+ * Outcome of a finished discovery run
+ */
+export function getDiscoveryOutcome(state: DiscoveryState): DiscoveryOutcome {
+  return state.errors && state.errors.length > 0 ? 'completed_with_errors' : 'completed';
+}
+
 /**
  * Get all files that need uploading (CID not yet set)
  * Note: Empty string CID means upload failed, don't retry
+ * (resetFailedTextFiles() turns failed files back into pending ones)
  */
 function getFilesNeedingUpload(state: DiscoveryState): Array<{ node: DiscoveryNode; file: DiscoveryTextFile }> {
   const files: Array<{ node: DiscoveryNode; file: DiscoveryTextFile }> = [];
@@ -211,40 +338,65 @@ export async function uploadFileBatch(
   // Upload files in parallel (within batch)
   await Promise.all(
     pendingFiles.map(async ({ node, file }) => {
+      const errorTarget: DiscoveryErrorTarget = {
+        path: node.path,
+        filename: file.filename,
+        phase: 'UPLOADING',
+      };
+
       try {
         const obj = await env.STAGING_BUCKET.get(file.r2_key);
-        if (obj) {
-          const content = await obj.text();
-
-          // Upload original file
-          const cid = await ipfsClient.uploadContent(content, file.filename);
-          file.cid = cid;
-          file.total_chars = content.length;
-          state.files_uploaded++;
-
-          // Prepare chunks if file is large enough
-          if (shouldChunk(content.length, DEFAULT_CHUNKING_CONFIG)) {
-            const chunkResults = chunkText(content, DEFAULT_CHUNKING_CONFIG);
-
-            file.chunks = chunkResults.map((chunk: ChunkResult): DiscoveryChunk => ({
-              id: chunk.id,
-              text: chunk.text,
-              char_start: chunk.char_start,
-              char_end: chunk.char_end,
-              // cid will be set during CHUNKING phase
-            }));
-
-            state.chunks_total += file.chunks.length;
-            console.log(`[Discovery] Uploaded ${node.path}/${file.filename} -> ${cid} (${file.chunks.length} chunks prepared)`);
-          } else {
-            // File too small to chunk, mark as no chunks needed
-            file.chunks = [];
-            file.chunks_uploaded = true;
-            console.log(`[Discovery] Uploaded ${node.path}/${file.filename} -> ${cid} (no chunking needed)`);
-          }
+        if (!obj) {
+          throw new Error(`Object not found: ${file.r2_key}`);
+        }
+        const content = await obj.text();
+
+        // Upload original file
+        const cid = await ipfsClient.uploadContent(content, file.filename);
+
+        // HTML/XML: upload the readable text next to the original and chunk that
+        const extraction = extractFileText(file.filename, content);
+        if (extraction && extraction.text.length > 0) {
+          file.extracted_cid = await ipfsClient.uploadContent(
+            extraction.text,
+            getExtractedTextName(file.filename)
+          );
+          file.extracted_chars = extraction.text.length;
+        }
+        const chunkSource = extraction ? extraction.text : content;
+
+        file.cid = cid;
+        file.total_chars = content.length;
+        state.files_uploaded++;
+        clearDiscoveryError(state, errorTarget);
+
+        // Prepare chunks if file is large enough
+        const chunkingConfig = node.chunking_config ?? DEFAULT_CHUNKING_CONFIG;
+        if (shouldChunk(getTextMeasure(chunkingConfig)(chunkSource), chunkingConfig)) {
+          const chunkResults = chunkTextFile(file.filename, chunkSource, chunkingConfig);
+
+          // Keep offsets only - text is re-sliced from R2 during CHUNKING
+          file.chunks = chunkResults.map((chunk: ChunkResult): DiscoveryChunk => ({
+            id: chunk.id,
+            char_start: chunk.char_start,
+            char_end: chunk.char_end,
+            token_count: estimateTokens(chunk.text),
+            ...pickChunkStructure(chunk),
+            ...(extraction && mapToSource(content, extraction, chunk.char_start, chunk.char_end)),
+            // cid will be set during CHUNKING phase
+          }));
+
+          state.chunks_total += file.chunks.length;
+          console.log(`[Discovery] Uploaded ${node.path}/${file.filename} -> ${cid} (${file.chunks.length} chunks prepared)`);
+        } else {
+          // File too small to chunk, mark as no chunks needed
+          file.chunks = [];
+          file.chunks_uploaded = true;
+          console.log(`[Discovery] Uploaded ${node.path}/${file.filename} -> ${cid} (no chunking needed)`);
         }
       } catch (error) {
         console.error(`[Discovery] Failed to upload ${file.filename}:`, error);
+        recordDiscoveryError(state, errorTarget, error);
         // Mark as uploaded with empty CID to skip it
         file.cid = '';
         file.chunks = [];
@@ -272,8 +424,10 @@ export async function uploadFileBatch(
 /**
  * Get all chunks that need uploading (CID not yet set)
  */
-function getChunksNeedingUpload(state: DiscoveryState): Array<{ file: DiscoveryTextFile; chunk: DiscoveryChunk }> {
-  const chunks: Array<{ file: DiscoveryTextFile; chunk: DiscoveryChunk }> = [];
+function getChunksNeedingUpload(
+  state: DiscoveryState
+): Array<{ node: DiscoveryNode; file: DiscoveryTextFile; chunk: DiscoveryChunk }> {
+  const chunks: Array<{ node: DiscoveryNode; file: DiscoveryTextFile; chunk: DiscoveryChunk }> = [];
 
   for (const node of Object.values(state.nodes)) {
     for (const file of node.text_files) {
@@ -285,7 +439,7 @@ function getChunksNeedingUpload(state: DiscoveryState): Array<{ file: DiscoveryT
       for (const chunk of file.chunks) {
         // Only include chunks that haven't been uploaded yet
         if (chunk.cid === undefined) {
-          chunks.push({ file, chunk });
+          chunks.push({ node, file, chunk });
         }
       }
     }
@@ -294,8 +448,36 @@ function getChunksNeedingUpload(state: DiscoveryState): Array<{ file: DiscoveryT
   return chunks;
 }
 
+/**
+ * Read the source text a file's chunks are sliced from
+ * (the extracted text for HTML/XML files)
+ * Skips the R2 read when every chunk still carries legacy inline text.
+ */
+async function loadSourceText(
+  env: Env,
+  file: DiscoveryTextFile,
+  chunks: DiscoveryChunk[]
+): Promise<string> {
+  if (chunks.every((c) => c.text !== undefined)) {
+    return '';
+  }
+
+  const obj = await env.STAGING_BUCKET.get(file.r2_key);
+  if (!obj) {
+    throw new Error(`Object not found: ${file.r2_key}`);
+  }
+  const content = await obj.text();
+
+  // Chunks of HTML/XML files are slices of the extracted text
+  if (file.extracted_cid) {
+    return extractFileText(file.filename, content)?.text ?? content;
+  }
+  return content;
+}
+
 /**
  * Upload a batch of chunks to IPFS
+ * Chunk text is sliced from the source object in R2 by offset
  * Returns true if more work remains
  */
 export async function uploadChunkBatch(
@@ -316,22 +498,53 @@ export async function uploadChunkBatch(
 
   console.log(`[Discovery] Uploading ${pendingChunks.length} chunks (${state.chunks_uploaded}/${state.chunks_total} done)`);
 
+  // Group chunks by source file so each object is read from R2 once
+  const chunksByFile = new Map<DiscoveryTextFile, { node: DiscoveryNode; chunks: DiscoveryChunk[] }>();
+  for (const { node, file, chunk } of pendingChunks) {
+    const group = chunksByFile.get(file) ?? { node, chunks: [] };
+    group.chunks.push(chunk);
+    chunksByFile.set(file, group);
+  }
+
   // Upload chunks in parallel (within batch)
   await Promise.all(
-    pendingChunks.map(async ({ file, chunk }) => {
+    Array.from(chunksByFile.entries()).map(async ([file, { node, chunks: fileChunks }]) => {
+      let content: string | null = null;
       try {
-        const cid = await ipfsClient.uploadContent(
-          chunk.text,
-          `${file.filename}#${chunk.id}`
-        );
-        chunk.cid = cid;
-        state.chunks_uploaded++;
+        content = await loadSourceText(env, file, fileChunks);
       } catch (error) {
-        console.error(`[Discovery] Failed to upload chunk ${file.filename}#${chunk.id}:`, error);
-        // Mark as failed with empty CID to skip it
-        chunk.cid = '';
-        state.chunks_uploaded++;
+        console.error(`[Discovery] Failed to read ${file.r2_key} for chunking:`, error);
       }
+
+      await Promise.all(
+        fileChunks.map(async (chunk) => {
+          const errorTarget: DiscoveryErrorTarget = {
+            path: node.path,
+            filename: file.filename,
+            chunk_id: chunk.id,
+            phase: 'CHUNKING',
+          };
+
+          try {
+            if (content === null) {
+              throw new Error(`Source object ${file.r2_key} unavailable`);
+            }
+            const cid = await ipfsClient.uploadContent(
+              chunk.text ?? getChunkContent(content, chunk),
+              `${file.filename}#${chunk.id}`
+            );
+            chunk.cid = cid;
+            state.chunks_uploaded++;
+            clearDiscoveryError(state, errorTarget);
+          } catch (error) {
+            console.error(`[Discovery] Failed to upload chunk ${file.filename}#${chunk.id}:`, error);
+            recordDiscoveryError(state, errorTarget, error);
+            // Mark as failed with empty CID to skip it
+            chunk.cid = '';
+            state.chunks_uploaded++;
+          }
+        })
+      );
     })
   );
 
@@ -357,6 +570,59 @@ export async function uploadChunkBatch(
   return true;
 }
 
+/**
+ * Mark failed text file and chunk uploads (CID '') as pending again
+ *
+ * Only files in directories that are not yet published are reset - a
+ * published entity already has its components and can't pick up new CIDs.
+ * Returns the phase discovery should resume from (UPLOADING if any whole
+ * file was reset, CHUNKING if only chunks were, otherwise unchanged).
+ */
+export function resetFailedTextFiles(
+  state: DiscoveryState,
+  resumePhase: DiscoveryPhase
+): { phase: DiscoveryPhase; files_reset: number; chunks_reset: number } {
+  let filesReset = 0;
+  let chunksReset = 0;
+
+  for (const node of Object.values(state.nodes)) {
+    if (node.published) {
+      continue;
+    }
+
+    for (const file of node.text_files) {
+      if (file.cid === '') {
+        file.cid = undefined;
+        file.extracted_cid = undefined;
+        file.extracted_chars = undefined;
+        file.chunks = undefined;
+        file.chunks_uploaded = undefined;
+        state.files_uploaded--;
+        filesReset++;
+        continue;
+      }
+
+      for (const chunk of file.chunks ?? []) {
+        if (chunk.cid === '') {
+          chunk.cid = undefined;
+          file.chunks_uploaded = false;
+          state.chunks_uploaded--;
+          chunksReset++;
+        }
+      }
+    }
+  }
+
+  let phase = resumePhase;
+  if (filesReset > 0) {
+    phase = 'UPLOADING';
+  } else if (chunksReset > 0 && phase !== 'UPLOADING') {
+    phase = 'CHUNKING';
+  }
+
+  return { phase, files_reset: filesReset, chunks_reset: chunksReset };
+}
+
 /**
  * Check if all children of a node are published
  */
@@ -386,13 +652,17 @@ function getDirectoriesReadyToPublish(state: DiscoveryState): DiscoveryNode[] {
 async function publishDirectory(
   node: DiscoveryNode,
   state: DiscoveryState,
-  ipfsClient: IPFSWrapperClient
+  ipfsClient: IPFSWrapperClient,
+  onNodePublished?: NodePublishedCallback
 ): Promise<void> {
   // Build components from uploaded files
   const components: Record<string, string> = {};
   for (const file of node.text_files) {
     if (file.cid && file.cid.length > 0) {
       components[file.filename] = file.cid;
+      if (file.extracted_cid) {
+        components[getExtractedTextName(file.filename)] = file.extracted_cid;
+      }
     }
   }
 
@@ -406,6 +676,13 @@ async function publishDirectory(
       filename: file.filename,
       original_cid: file.cid!,
       total_chars: file.total_chars || 0,
+      ...(file.extracted_cid && {
+        extracted_text: {
+          component: getExtractedTextName(file.filename),
+          cid: file.extracted_cid,
+          total_chars: file.extracted_chars ?? 0,
+        },
+      }),
       chunks: (file.chunks || [])
         .filter((c) => c.cid && c.cid.length > 0)
         .map((c) => ({
@@ -413,11 +690,16 @@ async function publishDirectory(
           cid: c.cid!,
           char_start: c.char_start,
           char_end: c.char_end,
-          char_count: c.text.length,
+          char_count: c.char_end - c.char_start + (c.header_chars ?? 0),
+          ...(c.token_count !== undefined && { token_count: c.token_count }),
+          ...pickChunkStructure(c),
         })),
     }));
 
-    const chunksManifest = buildChunksManifest(chunksManifestData, DEFAULT_CHUNKING_CONFIG);
+    const chunksManifest = buildChunksManifest(
+      chunksManifestData,
+      node.chunking_config ?? DEFAULT_CHUNKING_CONFIG
+    );
     const chunksJson = JSON.stringify(chunksManifest, null, 2);
     const chunksCid = await ipfsClient.uploadContent(chunksJson, 'chunks.json');
     components['chunks.json'] = chunksCid;
@@ -449,6 +731,9 @@ async function publishDirectory(
   state.node_versions[node.path] = result.ver;
   state.directories_published++;
 
+  // Persist immediately - the entity now exists even if a sibling publish fails
+  await onNodePublished?.(node);
+
   const chunkInfo = chunkedFiles.length > 0 ? `, chunks.json with ${chunkedFiles.length} files` : '';
   console.log(
     `[Discovery] Published ${node.path}: PI=${result.id}, ${Object.keys(components).length} components${chunkInfo}, ${childPis.length} children`
@@ -462,7 +747,8 @@ async function publishDirectory(
 export async function publishDirectoryBatch(
   state: DiscoveryState,
   env: Env,
-  batchSize: number = ENTITY_BATCH_SIZE
+  batchSize: number = ENTITY_BATCH_SIZE,
+  onNodePublished?: NodePublishedCallback
 ): Promise<boolean> {
   const ipfsClient = new IPFSWrapperClient(env.ARKE_IPFS_API);
 
@@ -488,9 +774,15 @@ export async function publishDirectoryBatch(
   );
 
   // Publish directories in parallel (within batch)
-  await Promise.all(
-    readyDirs.map((node) => publishDirectory(node, state, ipfsClient))
+  // Wait for every publish to settle before failing, so no entity is
+  // created after the caller has already saved state and scheduled a retry
+  const results = await Promise.allSettled(
+    readyDirs.map((node) => publishDirectory(node, state, ipfsClient, onNodePublished))
   );
+  const failure = results.find((r): r is PromiseRejectedResult => r.status === 'rejected');
+  if (failure) {
+    throw failure.reason;
+  }
 
   // Check if more directories remain at any depth
   const unpublishedCount = Object.values(state.nodes).filter((n) => !n.published).length;
@@ -505,7 +797,8 @@ export async function processDiscoveryBatch(
   state: DiscoveryState,
   env: Env,
   uploadBatchSize: number = UPLOAD_BATCH_SIZE,
-  entityBatchSize: number = ENTITY_BATCH_SIZE
+  entityBatchSize: number = ENTITY_BATCH_SIZE,
+  onNodePublished?: NodePublishedCallback
 ): Promise<boolean> {
   switch (state.phase) {
     case 'UPLOADING':
@@ -515,7 +808,7 @@ export async function processDiscoveryBatch(
       return uploadChunkBatch(state, env, CHUNK_UPLOAD_BATCH_SIZE);
 
     case 'PUBLISHING':
-      return publishDirectoryBatch(state, env, entityBatchSize);
+      return publishDirectoryBatch(state, env, entityBatchSize, onNodePublished);
 
     case 'RELATIONSHIPS':
       return establishRelationshipsBatch(state, env, entityBatchSize);
@@ -593,7 +886,8 @@ export async function establishRelationshipsBatch(
   if (pendingParents.length === 0) {
     // All internal relationships done, move to DONE phase
     state.phase = 'DONE';
-    console.log('[Discovery] All relationships established, phase complete');
+    state.outcome = getDiscoveryOutcome(state);
+    console.log(`[Discovery] All relationships established, phase complete (${state.outcome})`);
     return false;
   }
 
@@ -612,7 +906,8 @@ export async function establishRelationshipsBatch(
           `[Discovery] Failed to set parent_pi for children of ${parentNode.path}:`,
           error
         );
-        // Mark as done to avoid infinite retry - log the error
+        // Mark as done to avoid infinite retry - record the error
+        recordDiscoveryError(state, { path: parentNode.path, phase: 'RELATIONSHIPS' }, error);
         parentNode.relationships_set = true;
       }
     })
@@ -631,6 +926,11 @@ export async function attachToExternalParent(
   env: Env,
   parentPi: string
 ): Promise<void> {
+  // Already attempted (e.g. an alarm retrying a failed enqueue)
+  if (state.parent_attached) {
+    return;
+  }
+
   const ipfsClient = new IPFSWrapperClient(env.ARKE_IPFS_API);
 
   if (state.node_pis['/']) {
@@ -643,7 +943,10 @@ export async function attachToExternalParent(
     } catch (error) {
       console.error(`[Discovery] Failed to attach root to parent ${parentPi}:`, error);
       // Don't fail discovery for this - root entity still exists
+      recordDiscoveryError(state, { path: '/', phase: 'RELATIONSHIPS' }, error);
+      state.outcome = getDiscoveryOutcome(state);
     }
+    state.parent_attached = true;
   }
 }
 
@@ -678,12 +981,13 @@ async function establishAllRelationships(
 export async function runSyncDiscovery(
   manifest: BatchManifest,
   env: Env,
-  parentPi?: string
+  parentPi?: string,
+  chunkingConfig?: BatchChunkingConfig
 ): Promise<DiscoveryResult> {
   console.log(`[Discovery] Running sync discovery for ${manifest.directories.length} directories`);
 
   // Build tree
-  const state = buildDiscoveryTree(manifest);
+  const state = buildDiscoveryTree(manifest, chunkingConfig);
   console.log(
     `[Discovery] Built tree with ${state.directories_total} nodes, ${state.files_total} files, max depth ${state.current_depth}`
   );
@@ -711,12 +1015,17 @@ export async function runSyncDiscovery(
     throw new Error('Discovery completed but root PI not found');
   }
 
-  console.log(`[Discovery] Sync discovery complete, root_pi: ${rootPi}, ${state.chunks_total} chunks created`);
+  const outcome = getDiscoveryOutcome(state);
+  console.log(
+    `[Discovery] Sync discovery complete (${outcome}), root_pi: ${rootPi}, ${state.chunks_total} chunks created`
+  );
 
   return {
     root_pi: rootPi,
     node_pis: state.node_pis,
     node_tips: state.node_tips,
     node_versions: state.node_versions,
+    outcome,
+    errors: state.errors ?? [],
   };
 }
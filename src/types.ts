@@ -2,6 +2,9 @@
  * Type definitions for the arke-ingest-worker
  */
 
+import type { BatchChunkingConfig, ChunkingConfig, ChunkStructure } from './lib/chunking';
+import type { UploaderIndexObject } from './durable-objects/UploaderIndex';
+
 // ============================================================================
 // Environment Bindings
 // ============================================================================
@@ -19,6 +22,9 @@ export interface Env {
   // Durable Object for tracking batch state (atomic, no race conditions)
   BATCH_STATE_DO: DurableObjectNamespace;
 
+  // Durable Object indexing batches per uploader (for listing)
+  UPLOADER_INDEX_DO: DurableObjectNamespace<UploaderIndexObject>;
+
   // Service binding to Arke IPFS API worker
   ARKE_IPFS_API: Fetcher;
 
@@ -32,6 +38,12 @@ export interface Env {
   PRESIGNED_URL_EXPIRY: string;
   MAX_FILE_SIZE: string;
   MAX_BATCH_SIZE: string;
+  BATCH_TTL_SECONDS: string;
+  REQUIRE_SESSION_TOKEN: string;  // "true" = batch routes need Authorization: Bearer <session_id>
+
+  // Shared secrets service callbacks are signed with (see lib/service-auth.ts)
+  ORCHESTRATOR_SECRET: string;   // processing-events
+  PREPROCESSOR_SECRET: string;   // enqueue-processed
 }
 
 // ============================================================================
@@ -42,22 +54,33 @@ export interface BatchState {
   batch_id: string;
   session_id: string;
   uploader: string;
+  created_by?: string;      // X-User-Id of the creating user (owner)
   root_path: string;
   parent_pi: string;
   file_count: number;
   total_size: number;
   metadata: Record<string, any>;
   custom_prompts?: CustomPrompts;
+  chunking_config?: BatchChunkingConfig;
   files: FileState[];
   status: BatchStatus;
   created_at: string;
   enqueued_at?: string;
+  aborted_at?: string;
+  expires_at?: string;      // Batch expires if not finalized by this time
+  expired_at?: string;
+  // Orchestrator outcome (set via processing-events)
+  completed_at?: string;
+  processing_error?: string;
+  // Lifecycle webhooks (see Webhooks section)
+  callback_url?: string;
+  callback_secret?: string;
   // Discovery state (populated during finalization)
   root_pi?: string;
   discovery_state?: DiscoveryState;
 }
 
-export type BatchStatus = 'uploading' | 'discovery' | 'preprocessing' | 'enqueued' | 'processing' | 'completed' | 'failed';
+export type BatchStatus = 'uploading' | 'discovery' | 'preprocessing' | 'enqueued' | 'processing' | 'completed' | 'failed' | 'aborted' | 'expired';
 
 // ============================================================================
 // Discovery State (Initial Discovery during finalization)
@@ -73,20 +96,49 @@ export type DiscoveryPhase =
 
 /**
  * A chunk of a text file, prepared during upload phase
+ *
+ * Only offsets are kept in state; the chunk text is sliced from the
+ * source object in R2 when the chunk is uploaded (CHUNKING phase).
  */
-export interface DiscoveryChunk {
+export interface DiscoveryChunk extends ChunkStructure {
   /** Chunk identifier (e.g., "chunk_0", "chunk_1") */
   id: string;
-  /** Chunk text content */
-  text: string;
+  /** Chunk text content (legacy - only present on batches chunked before offsets-only state) */
+  text?: string;
   /** Start position in original file (0-indexed) */
   char_start: number;
   /** End position in original file (exclusive) */
   char_end: number;
+  /** Estimated token count of the chunk content */
+  token_count?: number;
   /** CID of chunk content (set after upload) */
   cid?: string;
 }
 
+/**
+ * Outcome of a finished discovery run
+ * 'completed_with_errors' means some files, chunks or relationships were
+ * skipped - see DiscoveryState.errors for which ones
+ */
+export type DiscoveryOutcome = 'completed' | 'completed_with_errors';
+
+/**
+ * A file, chunk or relationship that failed during discovery and was skipped
+ */
+export interface DiscoveryError {
+  /** Directory path of the node the error belongs to */
+  path: string;
+  /** Text file name (absent for directory-level errors) */
+  filename?: string;
+  /** Chunk identifier (CHUNKING errors only) */
+  chunk_id?: string;
+  phase: DiscoveryPhase;
+  message: string;
+  /** Number of times this item has failed (retries increment it) */
+  attempts: number;
+  last_attempt_at: string;
+}
+
 export interface DiscoveryTextFile {
   filename: string;
   r2_key: string;
@@ -94,6 +146,10 @@ export interface DiscoveryTextFile {
   cid?: string;
   /** Total character count of original file */
   total_chars?: number;
+  /** CID of the text extracted from an HTML/XML file (chunk offsets index into it) */
+  extracted_cid?: string;
+  /** Character count of the extracted text */
+  extracted_chars?: number;
   /** Chunk data (if file was chunked) */
   chunks?: DiscoveryChunk[];
   /** True when all chunks have been uploaded */
@@ -106,6 +162,8 @@ export interface DiscoveryNode {
   parent_path?: string;
   children_paths: string[];
   text_files: DiscoveryTextFile[];
+  /** Effective chunking config for this directory (absent = DEFAULT_CHUNKING_CONFIG) */
+  chunking_config?: ChunkingConfig;
   published: boolean;
   relationships_set?: boolean; // True once parent_pi has been set on all children
   pi?: string;
@@ -130,6 +188,14 @@ export interface DiscoveryState {
   chunks_uploaded: number;
   error?: string;
   retry_count?: number;
+  /** Phase that was running when discovery gave up (phase is then 'ERROR') */
+  failed_phase?: DiscoveryPhase;
+  /** Items that failed and were skipped (discovery continues without them) */
+  errors?: DiscoveryError[];
+  /** Set once phase reaches DONE */
+  outcome?: DiscoveryOutcome;
+  /** Set once attaching the root to an external parent was attempted (a failure is in errors) */
+  parent_attached?: boolean;
 }
 
 export interface DiscoveryResult {
@@ -137,6 +203,8 @@ export interface DiscoveryResult {
   node_pis: Record<string, string>;
   node_tips: Record<string, string>;
   node_versions: Record<string, number>;
+  outcome: DiscoveryOutcome;
+  errors: DiscoveryError[];
 }
 
 // ============================================================================
@@ -152,14 +220,62 @@ export interface FileState {
   processing_config: ProcessingConfig;
   upload_type: UploadType;
   upload_id?: string;
+  part_size?: number;         // Multipart only (absent on older batches = PART_SIZE)
   status: FileStatus;
   completed_at?: string;
   cid?: string;
+  sha256?: string;            // Client-declared SHA-256 (hex), enforced on upload
+  checksum_sha256?: string;   // SHA-256 (hex) reported by R2 at completion
+  verified_at?: string;       // When size/checksum were verified against R2
+  derived_from?: FileDerivation;  // Set on preprocessor outputs made from an uploaded file
+}
+
+// Which uploaded file a preprocessor output came from
+export interface FileDerivation {
+  r2_key: string;             // Original uploaded file
+  transform: string;          // e.g. "tiff_to_jpeg", "pdf_split"
 }
 
 export type UploadType = 'simple' | 'multipart';
 export type FileStatus = 'uploading' | 'completed';
 
+// ============================================================================
+// Webhooks
+// ============================================================================
+
+export type WebhookEventType = 'status_changed' | 'discovery_completed';
+
+/**
+ * Body POSTed to a batch's callback_url
+ */
+export interface WebhookPayload {
+  /** Delivery ID - stable across retries, use it to deduplicate */
+  id: string;
+  event: WebhookEventType;
+  batch_id: string;
+  timestamp: string;
+  status: BatchStatus;
+  previous_status?: BatchStatus;
+  root_pi?: string;
+  discovery_outcome?: DiscoveryOutcome;
+}
+
+export type WebhookDeliveryStatus = 'pending' | 'delivered' | 'failed';
+
+export interface WebhookDelivery {
+  id: string;
+  event: WebhookEventType;
+  payload: WebhookPayload;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  created_at: string;
+  next_attempt_at?: string;   // Set while pending
+  last_attempt_at?: string;
+  last_response_status?: number;
+  last_error?: string;
+  delivered_at?: string;
+}
+
 // ============================================================================
 // Processing Configuration
 // ============================================================================
@@ -197,6 +313,9 @@ export interface InitBatchRequest {
   metadata?: Record<string, any>;
   parent_pi?: string;
   custom_prompts?: CustomPrompts;
+  chunking_config?: BatchChunkingConfig; // Text chunking for discovery (defaults: DEFAULT_CHUNKING_CONFIG)
+  callback_url?: string;      // HTTPS endpoint for lifecycle webhooks
+  callback_secret?: string;   // HMAC key for signing webhooks (required with callback_url)
 }
 
 export interface InitBatchResponse {
@@ -211,6 +330,7 @@ export interface StartFileUploadRequest {
   logical_path: string;
   content_type: string;
   cid?: string;
+  sha256?: string;            // Simple uploads only - hex SHA-256 of the file
   processing_config: ProcessingConfig;
 }
 
@@ -219,6 +339,8 @@ export interface StartFileUploadResponse {
   upload_type: UploadType;
   upload_id?: string;
   part_size?: number;
+  total_parts?: number;
+  // First window of part URLs - fetch the rest from files/parts
   presigned_urls?: PresignedPartUrl[];
   presigned_url?: string;
 }
@@ -244,6 +366,171 @@ export interface CompleteFileUploadResponse {
   success: boolean;
 }
 
+// POST /api/batches/:batchId/files/start-bulk
+export interface BulkStartFileUploadRequest {
+  files: StartFileUploadRequest[];
+}
+
+export interface BulkStartFileUploadResponse {
+  started: number;
+  failed: number;
+  // One result per request item, in request order
+  results: BulkStartFileResult[];
+}
+
+export type BulkStartFileResult =
+  | ({ index: number; success: true } & StartFileUploadResponse)
+  | { index: number; success: false; logical_path?: string; error: string };
+
+// POST /api/batches/:batchId/files/complete-bulk
+export interface BulkCompleteFileUploadRequest {
+  files: CompleteFileUploadRequest[];
+}
+
+export interface BulkCompleteFileUploadResponse {
+  completed: number;
+  failed: number;
+  // One result per request item, in request order
+  results: BulkCompleteFileResult[];
+}
+
+export interface BulkCompleteFileResult {
+  index: number;
+  r2_key?: string;
+  success: boolean;
+  error?: string;
+}
+
+// POST /api/batches/:batchId/files/resume
+export interface ResumeFileUploadRequest {
+  r2_key: string;
+}
+
+export interface ResumeFileUploadResponse {
+  r2_key: string;
+  upload_type: UploadType;
+  upload_id?: string;
+  part_size?: number;
+  total_parts?: number;
+  // Parts R2 already has - pass these through to files/complete
+  completed_parts?: CompletedPart[];
+  // Every part number still missing
+  missing_parts?: number[];
+  // Fresh URLs for the first window of missing parts
+  presigned_urls?: PresignedPartUrl[];
+  presigned_url?: string;
+}
+
+// POST /api/batches/:batchId/files/parts
+export interface GetPartUrlsRequest {
+  r2_key: string;
+  start_part: number;
+  count?: number;             // Defaults to (and capped at) PART_URL_WINDOW_SIZE
+}
+
+export interface GetPartUrlsResponse {
+  r2_key: string;
+  upload_id: string;
+  part_size: number;
+  total_parts: number;
+  presigned_urls: PresignedPartUrl[];
+  next_part?: number;         // First part of the next window, absent when done
+}
+
+// DELETE /api/batches/:batchId/files
+export interface DeleteFileRequest {
+  r2_key: string;
+}
+
+export interface DeleteFileResponse {
+  success: boolean;
+  r2_key: string;
+  upload_aborted: boolean;
+}
+
+// POST /api/batches/:batchId/abort
+export interface AbortBatchResponse {
+  batch_id: string;
+  status: BatchStatus;
+  uploads_to_abort: number;   // Incomplete multipart uploads the background cleanup aborts
+}
+
+// POST /api/batches/:batchId/discovery/retry
+export interface RetryDiscoveryRequest {
+  /** Also re-attempt text files (and chunks) whose IPFS upload failed */
+  retry_failed_files?: boolean;
+}
+
+export interface RetryDiscoveryResponse {
+  batch_id: string;
+  status: BatchStatus;
+  phase: DiscoveryPhase;
+  files_reset: number;
+  chunks_reset: number;
+}
+
+// GET /api/batches/:batchId/events (WebSocket)
+export interface DiscoveryProgress {
+  phase: DiscoveryPhase;
+  directories_total: number;
+  directories_published: number;
+  files_total: number;
+  files_uploaded: number;
+  chunks_total: number;
+  chunks_uploaded: number;
+}
+
+export type BatchEventBody =
+  | {
+      /** Sent once when a client connects */
+      type: 'snapshot';
+      status: BatchStatus;
+      file_count: number;
+      files_uploaded: number;
+      total_bytes_uploaded: number;
+      root_pi?: string;
+      discovery_progress?: DiscoveryProgress;
+    }
+  | {
+      type: 'file_completed';
+      r2_key: string;
+      logical_path: string;
+      file_size: number;
+      completed_at: string;
+    }
+  | {
+      type: 'status_changed';
+      status: BatchStatus;
+      previous_status: BatchStatus;
+      root_pi?: string;
+    }
+  | ({ type: 'discovery_progress' } & DiscoveryProgress)
+  | ({ type: 'processing_progress' } & ProcessingProgress);
+
+export type BatchEvent = BatchEventBody & {
+  batch_id: string;
+  timestamp: string;
+};
+
+// GET /api/batches?uploader=...&status=...&cursor=...&limit=...
+// Summary of a batch as kept in the per-uploader index
+export interface BatchIndexEntry {
+  batch_id: string;
+  uploader: string;
+  root_path: string;
+  status: BatchStatus;
+  file_count: number;
+  total_size: number;
+  created_at: string;
+  updated_at: string;
+  root_pi?: string;
+}
+
+export interface ListBatchesResponse {
+  batches: BatchIndexEntry[];
+  next_cursor?: string;       // Pass as cursor to fetch the next page
+}
+
 // POST /api/batches/:batchId/finalize
 export interface FinalizeBatchResponse {
   batch_id: string;
@@ -256,6 +543,7 @@ export interface FinalizeBatchResponse {
     total: number;
     published: number;
   };
+  discovery_outcome?: DiscoveryOutcome;
 }
 
 // GET /api/batches/:batchId/status
@@ -272,8 +560,12 @@ export interface BatchStatusResponse {
   total_bytes_uploaded: number;
   created_at: string;
   enqueued_at?: string;
+  aborted_at?: string;
+  expires_at?: string;
+  expired_at?: string;
   metadata: Record<string, any>;
   custom_prompts?: CustomPrompts;
+  chunking_config?: BatchChunkingConfig;
   files: BatchStatusFileInfo[];
   root_pi?: string;
   discovery_progress?: {
@@ -281,6 +573,14 @@ export interface BatchStatusResponse {
     published: number;
     phase?: string;
   };
+  discovery_outcome?: DiscoveryOutcome;
+  discovery_errors?: DiscoveryError[];
+  callback_url?: string;
+  webhook_deliveries?: Array<Omit<WebhookDelivery, 'payload'>>;
+  completed_at?: string;
+  processing_error?: string;
+  processing_progress?: ProcessingProgress;
+  processing_failures?: PIProcessingState[];
 }
 
 export interface BatchStatusFileInfo {
@@ -294,13 +594,21 @@ export interface BatchStatusFileInfo {
   status: FileStatus;
   completed_at?: string;
   cid?: string;
+  checksum_sha256?: string;
+  verified_at?: string;
+  derived_from?: FileDerivation;
 }
 
 // ============================================================================
 // Queue Message (Simplified PI-only format for orchestrator)
 // ============================================================================
 
+// Version of the QueueMessage / PreprocessorQueueMessage contracts
+// (see src/schemas/queue-messages.ts); bump on any breaking field change
+export const QUEUE_SCHEMA_VERSION = 1;
+
 export interface QueueMessage {
+  schema_version: number;
   batch_id: string;
   root_pi: string;
 
@@ -322,11 +630,36 @@ export interface PINode {
   processing_config: ProcessingConfig;
 }
 
+// ============================================================================
+// Queue Envelope (inline message or R2 pointer)
+// ============================================================================
+
+export const QUEUE_ENVELOPE_VERSION = 1;
+
+// Fields added to every message sent to PREPROCESS_QUEUE / BATCH_QUEUE
+export interface QueueEnvelopeFields {
+  envelope_version: number;
+  payload_format: 'inline';
+}
+
+// Sent instead of the message when it is too large for the queue;
+// the full message is stored as JSON at payload_r2_key
+export interface QueuePayloadPointer {
+  envelope_version: number;
+  payload_format: 'r2';
+  batch_id: string;
+  payload_r2_key: string;
+  payload_bytes: number;
+}
+
+export type QueueEnvelope<T> = (T & QueueEnvelopeFields) | QueuePayloadPointer;
+
 // ============================================================================
 // Preprocessor Queue Message (sent to Cloud Run preprocessor)
 // ============================================================================
 
 export interface PreprocessorQueueMessage {
+  schema_version: number;
   batch_id: string;
   manifest_r2_key: string;
   r2_prefix: string;
@@ -368,6 +701,7 @@ export interface QueueFileInfo {
   file_size: number;
   content_type: string;
   cid?: string;
+  derived_from?: FileDerivation;
 }
 
 // ============================================================================
@@ -375,7 +709,15 @@ export interface QueueFileInfo {
 // ============================================================================
 
 export const MULTIPART_THRESHOLD = 5 * 1024 * 1024; // 5 MB
-export const PART_SIZE = 10 * 1024 * 1024; // 10 MB
+export const PART_SIZE = 10 * 1024 * 1024; // 10 MB (fixed part size before part_size was recorded per file)
+export const MIN_PART_SIZE = 5 * 1024 * 1024; // 5 MB (R2 minimum for all but the last part)
+export const TARGET_MULTIPART_PARTS = 50; // Part count a multipart upload is sized for
+export const MAX_PART_SIZE = 5 * 1024 * 1024 * 1024; // 5 GB (R2 limit)
+export const MAX_MULTIPART_PARTS = 10000; // R2 limit
+export const PART_URL_WINDOW_SIZE = 100; // Max part URLs signed per request
+// Max files per start-bulk / complete-bulk call. complete-bulk makes up to
+// 3 R2 calls per item, which must stay under the 1000 subrequest limit
+export const BULK_MAX_FILES = 300;
 
 // ============================================================================
 // Preprocessing Types
@@ -399,6 +741,8 @@ export interface ProcessedFileInfo {
   content_type: string;
   cid: string;
   processing_config?: ProcessingConfig;
+  // Required for files the preprocessor created; omitted for uploaded files passed through unchanged
+  derived_from?: FileDerivation;
 }
 
 export interface EnqueueProcessedResponse {
@@ -407,3 +751,45 @@ export interface EnqueueProcessedResponse {
   status: string;
   total_files: number;
 }
+
+// ============================================================================
+// Orchestrator Types
+// ============================================================================
+
+export type PIProcessingStatus = 'processing' | 'completed' | 'failed';
+
+// Latest reported state of one PI in the orchestrator pipeline
+export interface PIProcessingState {
+  pi: string;
+  status: PIProcessingStatus;
+  phase?: string;             // Orchestrator phase (e.g. "ocr", "pinax")
+  error?: string;             // Set when status is 'failed'
+  updated_at: string;
+}
+
+export interface ProcessingProgress {
+  total: number;              // PIs created by discovery
+  processing: number;
+  completed: number;
+  failed: number;
+}
+
+// POST /api/batches/:batchId/processing-events
+export interface ProcessingEventsRequest {
+  // Per-PI progress updates (latest update per PI wins)
+  pis?: Array<{
+    pi: string;
+    status: PIProcessingStatus;
+    phase?: string;
+    error?: string;
+  }>;
+  // Final outcome - closes out the batch
+  outcome?: 'completed' | 'failed';
+  error?: string;
+}
+
+export interface ProcessingEventsResponse {
+  batch_id: string;
+  status: BatchStatus;
+  processing_progress: ProcessingProgress;
+}
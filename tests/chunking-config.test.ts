@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest';
+import { validateChunkingConfig } from '../src/lib/validation';
+import { resolveChunkingConfig, DEFAULT_CHUNKING_CONFIG } from '../src/lib/chunking';
+
+describe('resolveChunkingConfig', () => {
+  const batchConfig = {
+    max_chunk_size: 5000,
+    directories: {
+      '/': { overlap: 100 },
+      '/letters': { algorithm: 'fixed' as const, min_chunk_size: 500 },
+      '/letters/1900': { min_chunk_size: 300 },
+    },
+  };
+
+  it('uses the defaults without a batch config', () => {
+    expect(resolveChunkingConfig(undefined, '/letters')).toEqual(DEFAULT_CHUNKING_CONFIG);
+  });
+
+  it('layers the batch config over the defaults', () => {
+    expect(resolveChunkingConfig({ overlap: 50 }, '/anything')).toEqual({ ...DEFAULT_CHUNKING_CONFIG, overlap: 50 });
+  });
+
+  it('applies the deepest matching directory override', () => {
+    expect(resolveChunkingConfig(batchConfig, '/photos')).toEqual({
+      ...DEFAULT_CHUNKING_CONFIG,
+      max_chunk_size: 5000,
+      overlap: 100,
+    });
+    expect(resolveChunkingConfig(batchConfig, '/letters/1899')).toEqual({
+      ...DEFAULT_CHUNKING_CONFIG,
+      max_chunk_size: 5000,
+      algorithm: 'fixed',
+      min_chunk_size: 500,
+    });
+    expect(resolveChunkingConfig(batchConfig, '/letters/1900/box')).toEqual({
+      ...DEFAULT_CHUNKING_CONFIG,
+      max_chunk_size: 5000,
+      min_chunk_size: 300,
+    });
+  });
+
+  it('matches directories on whole path segments', () => {
+    expect(resolveChunkingConfig(batchConfig, '/letters-old').algorithm).toBe(DEFAULT_CHUNKING_CONFIG.algorithm);
+  });
+});
+
+describe('validateChunkingConfig', () => {
+  it('accepts an absent or valid config', () => {
+    expect(validateChunkingConfig(undefined)).toBeNull();
+    expect(
+      validateChunkingConfig({
+        algorithm: 'fixed',
+        max_chunk_size: 4000,
+        directories: { '/letters': { min_chunk_size: 500, overlap: 50 } },
+      })
+    ).toBeNull();
+  });
+
+  it('rejects values of the wrong shape', () => {
+    expect(validateChunkingConfig([])).toBe('chunking_config must be an object');
+    expect(validateChunkingConfig({ directories: [] })).toBe('chunking_config.directories must be an object');
+    expect(validateChunkingConfig({ directories: { '/a': null } })).toBe(
+      'chunking_config.directories["/a"] must be an object'
+    );
+  });
+
+  it('rejects unknown fields and out-of-range values', () => {
+    expect(validateChunkingConfig({ size: 10 })).toBe('chunking_config: unknown field "size"');
+    expect(validateChunkingConfig({ unit: 'words' })).toBe('chunking_config.unit must be "chars" or "tokens"');
+    expect(validateChunkingConfig({ algorithm: 'semantic' })).toBe(
+      'chunking_config.algorithm must be "adaptive" or "fixed"'
+    );
+    expect(validateChunkingConfig({ target_chunks: 0 })).toBe(
+      'chunking_config.target_chunks must be an integer between 1 and 1000'
+    );
+    expect(validateChunkingConfig({ max_chunk_size: 100001 })).toBe(
+      'chunking_config.max_chunk_size must be an integer between 100 and 100000'
+    );
+    expect(validateChunkingConfig({ overlap: -1 })).toBe('chunking_config.overlap must be a non-negative integer');
+    expect(validateChunkingConfig({ directories: { '/a': { min_chunk_size: 1.5 } } })).toBe(
+      'chunking_config.directories["/a"].min_chunk_size must be an integer between 100 and 100000'
+    );
+  });
+
+  it('rejects invalid directory paths and too many directories', () => {
+    expect(validateChunkingConfig({ directories: { 'letters': {} } })).toBe(
+      'chunking_config.directories: invalid directory path "letters"'
+    );
+    expect(validateChunkingConfig({ directories: { '/letters/': {} } })).toBe(
+      'chunking_config.directories: invalid directory path "/letters/"'
+    );
+    const directories = Object.fromEntries(Array.from({ length: 101 }, (_, i) => [`/d${i}`, {}]));
+    expect(validateChunkingConfig({ directories })).toBe('chunking_config.directories has more than 100 entries');
+  });
+
+  it('checks the effective config of every directory', () => {
+    // Valid on its own, but exceeds the default max once layered
+    expect(validateChunkingConfig({ min_chunk_size: 20000 })).toBe(
+      'chunking_config for "/": min_chunk_size (20000) exceeds max_chunk_size (10000)'
+    );
+    expect(validateChunkingConfig({ directories: { '/a': { overlap: 1000 } } })).toBe(
+      'chunking_config for "/a": overlap (1000) must be less than min_chunk_size (1000)'
+    );
+  });
+});
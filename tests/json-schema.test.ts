@@ -0,0 +1,184 @@
+import { describe, it, expect } from 'vitest';
+import { validateJsonSchema, type JsonSchema } from '../src/lib/json-schema';
+import {
+  batchQueueMessageSchema,
+  preprocessorQueueMessageSchema,
+  queuePayloadPointerSchema,
+  QUEUE_SCHEMAS,
+} from '../src/schemas/queue-messages';
+import {
+  QUEUE_ENVELOPE_VERSION,
+  QUEUE_SCHEMA_VERSION,
+  type PreprocessorQueueMessage,
+  type QueueMessage,
+} from '../src/types';
+
+describe('validateJsonSchema', () => {
+  const schema: JsonSchema = {
+    type: 'object',
+    required: ['name', 'count'],
+    properties: {
+      name: { type: 'string', minLength: 1, pattern: '^[a-z]+$' },
+      count: { type: 'integer', minimum: 0 },
+      kind: { enum: ['a', 'b'] },
+      version: { const: 2 },
+      tags: { type: 'array', items: { type: 'string' } },
+      note: { type: ['string', 'null'] },
+    },
+    additionalProperties: false,
+  };
+
+  it('accepts a conforming value', () => {
+    expect(
+      validateJsonSchema(schema, { name: 'abc', count: 0, kind: 'a', version: 2, tags: ['x'], note: null })
+    ).toEqual([]);
+  });
+
+  it('reports type mismatches with the path and expected types', () => {
+    expect(validateJsonSchema(schema, [])).toEqual(['$: expected object']);
+    expect(validateJsonSchema(schema, { name: 'abc', count: 1.5, note: 3 })).toEqual([
+      '$.count: expected integer',
+      '$.note: expected string | null',
+    ]);
+  });
+
+  it('rejects non-finite numbers', () => {
+    expect(validateJsonSchema({ type: 'number' }, Number.NaN)).toEqual(['$: expected number']);
+  });
+
+  it('checks const, enum, string and number constraints', () => {
+    expect(validateJsonSchema(schema, { name: '', count: -1, kind: 'c', version: 1 })).toEqual([
+      '$.name: must be at least 1 characters',
+      '$.name: must match ^[a-z]+$',
+      '$.count: must be >= 0',
+      '$.kind: must be one of "a", "b"',
+      '$.version: must be 2',
+    ]);
+  });
+
+  it('reports missing required and unexpected properties', () => {
+    expect(validateJsonSchema(schema, { name: 'abc', extra: true })).toEqual([
+      '$.count: is required',
+      '$.extra: unexpected property',
+    ]);
+  });
+
+  it('ignores undefined properties as JSON serialization would', () => {
+    expect(validateJsonSchema(schema, { name: 'abc', count: 1, extra: undefined })).toEqual([]);
+  });
+
+  it('validates array items and additionalProperties schemas', () => {
+    expect(validateJsonSchema(schema, { name: 'abc', count: 1, tags: ['x', 2] })).toEqual([
+      '$.tags[1]: expected string',
+    ]);
+    const map: JsonSchema = { type: 'object', additionalProperties: { type: 'integer' } };
+    expect(validateJsonSchema(map, { a: 1, b: 'two' })).toEqual(['$.b: expected integer']);
+  });
+
+  it('caps the number of reported errors', () => {
+    const items: JsonSchema = { type: 'array', items: { type: 'string' } };
+    expect(validateJsonSchema(items, Array.from({ length: 50 }, (_, i) => i))).toHaveLength(20);
+  });
+});
+
+describe('queue message schemas', () => {
+  const processingConfig = { ocr: true, pinax: true, cheimarros: false, describe: true };
+
+  const preprocessorMessage: PreprocessorQueueMessage = {
+    schema_version: QUEUE_SCHEMA_VERSION,
+    batch_id: '01KBATCH',
+    manifest_r2_key: 'staging/01KBATCH/_manifest.json',
+    r2_prefix: 'staging/01KBATCH/',
+    uploader: 'alice',
+    root_path: '/archive',
+    parent_pi: '00000000000000000000000000',
+    total_files: 2,
+    total_bytes: 1024,
+    uploaded_at: '2025-01-01T00:00:00.000Z',
+    finalized_at: '2025-01-01T00:01:00.000Z',
+    metadata: {},
+    root_pi: 'PI_ROOT',
+    node_pis: { '/archive': 'PI_ROOT' },
+    node_tips: { '/archive': 'TIP' },
+    node_versions: { '/archive': 1 },
+  };
+
+  const batchMessage: QueueMessage = {
+    schema_version: QUEUE_SCHEMA_VERSION,
+    batch_id: '01KBATCH',
+    root_pi: 'PI_ROOT',
+    pis: [
+      { pi: 'PI_ROOT', children_pi: ['PI_CHILD'], processing_config: processingConfig },
+      { pi: 'PI_CHILD', parent_pi: 'PI_ROOT', children_pi: [], processing_config: processingConfig },
+    ],
+  };
+
+  const inline = { envelope_version: QUEUE_ENVELOPE_VERSION, payload_format: 'inline' };
+
+  it('accepts the messages the worker sends, bare or inline', () => {
+    expect(validateJsonSchema(preprocessorQueueMessageSchema, preprocessorMessage)).toEqual([]);
+    expect(validateJsonSchema(preprocessorQueueMessageSchema, { ...preprocessorMessage, ...inline })).toEqual([]);
+    expect(validateJsonSchema(batchQueueMessageSchema, batchMessage)).toEqual([]);
+    expect(validateJsonSchema(batchQueueMessageSchema, { ...batchMessage, ...inline })).toEqual([]);
+  });
+
+  it('rejects another schema version', () => {
+    expect(
+      validateJsonSchema(batchQueueMessageSchema, { ...batchMessage, schema_version: QUEUE_SCHEMA_VERSION + 1 })
+    ).toEqual([`$.schema_version: must be ${QUEUE_SCHEMA_VERSION}`]);
+  });
+
+  it('rejects malformed preprocessor messages', () => {
+    const { node_pis: _, ...withoutNodePis } = preprocessorMessage;
+    expect(
+      validateJsonSchema(preprocessorQueueMessageSchema, {
+        ...withoutNodePis,
+        root_path: 'archive',
+        total_files: -1,
+        node_versions: { '/archive': 'one' },
+      })
+    ).toEqual([
+      '$.node_pis: is required',
+      '$.root_path: must match ^/',
+      '$.total_files: must be >= 0',
+      '$.node_versions./archive: expected integer',
+    ]);
+  });
+
+  it('rejects malformed PI nodes', () => {
+    const pis = [{ pi: '', children_pi: [1], processing_config: { ocr: true }, extra: 1 }];
+    expect(validateJsonSchema(batchQueueMessageSchema, { ...batchMessage, pis })).toEqual([
+      '$.pis[0].pi: must be at least 1 characters',
+      '$.pis[0].children_pi[0]: expected string',
+      '$.pis[0].processing_config.pinax: is required',
+      '$.pis[0].processing_config.cheimarros: is required',
+      '$.pis[0].processing_config.describe: is required',
+      '$.pis[0].extra: unexpected property',
+    ]);
+  });
+
+  it('validates payload pointers', () => {
+    const pointer = {
+      envelope_version: QUEUE_ENVELOPE_VERSION,
+      payload_format: 'r2',
+      batch_id: '01KBATCH',
+      payload_r2_key: 'staging/01KBATCH/_queue/message.json',
+      payload_bytes: 200000,
+    };
+    expect(validateJsonSchema(queuePayloadPointerSchema, pointer)).toEqual([]);
+    expect(validateJsonSchema(queuePayloadPointerSchema, { ...pointer, payload_format: 'inline' })).toEqual([
+      '$.payload_format: must be "r2"',
+    ]);
+  });
+
+  it('serves every schema under its name with a versioned $id', () => {
+    expect(Object.keys(QUEUE_SCHEMAS).sort()).toEqual([
+      'batch-queue-message',
+      'preprocessor-queue-message',
+      'queue-payload-pointer',
+    ]);
+    for (const schema of Object.values(QUEUE_SCHEMAS)) {
+      expect(schema.$id).toMatch(/^urn:arke:ingest:[a-z-]+:v\d+$/);
+    }
+  });
+});
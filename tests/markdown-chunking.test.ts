@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import { chunkMarkdown } from '../src/lib/markdown-chunking';
+import { DEFAULT_CHUNKING_CONFIG, type ChunkingConfig } from '../src/lib/chunking';
+import { estimateTokens } from '../src/lib/tokenizer';
+
+const config: ChunkingConfig = {
+  ...DEFAULT_CHUNKING_CONFIG,
+  algorithm: 'fixed',
+  min_chunk_size: 100,
+  max_chunk_size: 300,
+  overlap: 20,
+};
+
+function paragraph(words: number, word = 'lorem'): string {
+  return Array.from({ length: words }, () => word).join(' ') + '.';
+}
+
+const document = [
+  '# Intro',
+  '',
+  paragraph(30),
+  '',
+  '## Methods',
+  '',
+  paragraph(30, 'ipsum'),
+  '',
+  '```ts',
+  'const a = 1;',
+  'const b = 2;',
+  '```',
+  '',
+  '### Details',
+  '',
+  '| col | value |',
+  '|-----|-------|',
+  '| a   | 1     |',
+  '| b   | 2     |',
+  '',
+  '# Results',
+  '',
+  paragraph(30, 'dolor'),
+].join('\n');
+
+describe('chunkMarkdown', () => {
+  it('returns no chunks below min_chunk_size', () => {
+    expect(chunkMarkdown('# Title\n\nShort.', config)).toEqual([]);
+  });
+
+  it('produces chunks that are exact slices of the source', () => {
+    const chunks = chunkMarkdown(document, config);
+    expect(chunks.length).toBeGreaterThan(1);
+    chunks.forEach((chunk, index) => {
+      expect(chunk.id).toBe(`chunk_${index}`);
+      expect(chunk.text).toBe(document.slice(chunk.char_start, chunk.char_end));
+      expect(chunk.char_end - chunk.char_start).toBeLessThanOrEqual(config.max_chunk_size);
+    });
+  });
+
+  it('covers every block in order', () => {
+    const chunks = chunkMarkdown(document, config);
+    for (let i = 1; i < chunks.length; i++) {
+      expect(chunks[i]!.char_start).toBeGreaterThanOrEqual(chunks[i - 1]!.char_start);
+    }
+    for (const marker of ['# Intro', 'ipsum', 'const b = 2;', '| b   | 2     |', 'dolor']) {
+      expect(chunks.some((chunk) => chunk.text.includes(marker))).toBe(true);
+    }
+  });
+
+  it('records the heading path of each chunk', () => {
+    const chunks = chunkMarkdown(document, config);
+    const pathOf = (marker: string) => chunks.find((chunk) => chunk.text.includes(marker))?.heading_path;
+
+    expect(pathOf('lorem')).toBe('# Intro');
+    expect(pathOf('ipsum')).toBe('# Intro > ## Methods');
+    expect(pathOf('| a   | 1     |')).toBe('# Intro > ## Methods > ### Details');
+    expect(pathOf('dolor')).toBe('# Results');
+  });
+
+  it('starts chunks at headings and keeps them with their content', () => {
+    const chunks = chunkMarkdown(document, config);
+    const results = chunks.find((chunk) => chunk.text.includes('# Results'))!;
+    expect(results.text.startsWith('# Results')).toBe(true);
+    expect(results.text).toContain('dolor');
+  });
+
+  it('keeps a fenced code block whole when it fits', () => {
+    const chunks = chunkMarkdown(document, config);
+    const code = chunks.find((chunk) => chunk.text.includes('```ts'))!;
+    expect(code.text).toContain('const a = 1;\nconst b = 2;\n```');
+  });
+
+  it('splits an oversized block on its own', () => {
+    const long = `# Long\n\n${paragraph(200)}`;
+    const chunks = chunkMarkdown(long, config);
+    expect(chunks.length).toBeGreaterThan(1);
+    chunks.forEach((chunk) => {
+      expect(chunk.text).toBe(long.slice(chunk.char_start, chunk.char_end));
+      expect(chunk.heading_path).toBe('# Long');
+    });
+    expect(chunks[0]!.char_start).toBe(0);
+    expect(chunks[chunks.length - 1]!.char_end).toBe(long.length);
+  });
+
+  it('sizes chunks in tokens when configured', () => {
+    const tokenConfig: ChunkingConfig = { ...config, unit: 'tokens', min_chunk_size: 100, max_chunk_size: 150 };
+    const long = `# Long\n\n${paragraph(1000)}`;
+    const chunks = chunkMarkdown(long, tokenConfig);
+    // 'lorem ' is ~2 tokens, so 150 tokens hold far more than 150 characters
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks[0]!.char_end - chunks[0]!.char_start).toBeGreaterThan(150);
+    for (const chunk of chunks) {
+      expect(chunk.text).toBe(long.slice(chunk.char_start, chunk.char_end));
+      expect(estimateTokens(chunk.text)).toBeLessThanOrEqual(tokenConfig.max_chunk_size);
+    }
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, it, expect } from 'vitest';
+import {
+  extractMarkupText,
+  mapToSource,
+  getExtractedTextName,
+} from '../src/lib/markup-extraction';
+import { chunkText, DEFAULT_CHUNKING_CONFIG } from '../src/lib/chunking';
+
+describe('extractMarkupText (html)', () => {
+  it('drops tags, comments and non-text elements', () => {
+    const html =
+      '<!DOCTYPE html><html><head><title>Report</title><style>p { color: red; }</style>' +
+      '<script>var x = "<p>not text</p>";</script></head>' +
+      '<body><!-- hidden --><p>Hello <b>world</b>.</p><noscript>enable js</noscript></body></html>';
+    const { text } = extractMarkupText(html, 'html');
+    expect(text).toBe('Report\n\nHello world.');
+  });
+
+  it('turns block, line and cell elements into separators and collapses whitespace', () => {
+    const html = '<h1>Title</h1>\n  <p>One\n   two</p><ul><li>a</li><li>b</li></ul>' +
+      '<table><tr><td>x</td><td>y</td></tr></table>';
+    const { text } = extractMarkupText(html, 'html');
+    expect(text).toBe('Title\n\nOne two\n\na\nb\n\nx\ty');
+  });
+
+  it('preserves whitespace inside pre', () => {
+    const html = '<p>Code:</p><pre>line 1\n  line 2</pre>';
+    expect(extractMarkupText(html, 'html').text).toBe('Code:\n\nline 1\n  line 2');
+  });
+
+  it('decodes entities and keeps a stray < as text', () => {
+    const html = '<p>Tom &amp; Jerry &lt;3 &#169; &#x2014; &bogus; 1 < 2</p>';
+    expect(extractMarkupText(html, 'html').text).toBe('Tom & Jerry <3 © — &bogus; 1 < 2');
+  });
+
+  it('keeps numeric references that are not valid characters as text', () => {
+    expect(extractMarkupText('<p>a &#-1; b</p>', 'html').text).toBe('a &#-1; b');
+    expect(extractMarkupText('<p>&#x-2; &#xD800; &#1114112; &#12abc;</p>', 'html').text).toBe(
+      '&#x-2; &#xD800; &#1114112; &#12abc;'
+    );
+  });
+
+  it('records a source position for every extracted character', () => {
+    const html = '<p>Tom &amp; Jerry</p><p>next</p>';
+    const extraction = extractMarkupText(html, 'html');
+    expect(extraction.positions.length).toBe(extraction.text.length);
+    for (let i = 0; i < extraction.text.length; i++) {
+      const position = extraction.positions[i]!;
+      if (position >= 0 && extraction.text[i] !== '&') {
+        expect(html[position]).toBe(extraction.text[i]);
+      }
+    }
+  });
+});
+
+describe('extractMarkupText (xml)', () => {
+  it('separates element text and keeps CDATA', () => {
+    const xml = '<?xml version="1.0"?><doc><title>A &amp; B</title><body><![CDATA[x < y]]></body></doc>';
+    expect(extractMarkupText(xml, 'xml').text).toBe('A & B\nx < y');
+  });
+
+  it('keeps element name case and does not skip HTML-only elements', () => {
+    const xml = '<Root><script>kept</script><Item>value</Item></Root>';
+    expect(extractMarkupText(xml, 'xml').text).toBe('kept\nvalue');
+  });
+});
+
+describe('mapToSource', () => {
+  const html = '<html><body><h1>Heading</h1><p>Tom &amp; Jerry</p><p>Last words</p></body></html>';
+  const extraction = extractMarkupText(html, 'html');
+  const { text } = extraction;
+
+  const sourceOf = (start: number, end: number) => {
+    const { source_start, source_end } = mapToSource(html, extraction, start, end);
+    return html.slice(source_start, source_end);
+  };
+
+  it('maps a plain text range to the same characters', () => {
+    const start = text.indexOf('Heading');
+    expect(sourceOf(start, start + 'Heading'.length)).toBe('Heading');
+  });
+
+  it('maps a range ending on an entity to the whole entity', () => {
+    const start = text.indexOf('Tom');
+    expect(sourceOf(start, text.indexOf('&') + 1)).toBe('Tom &amp;');
+  });
+
+  it('maps a range spanning separators across the tags between', () => {
+    const start = text.indexOf('Heading');
+    const end = text.indexOf('Jerry') + 'Jerry'.length;
+    expect(sourceOf(start, end)).toBe('Heading</h1><p>Tom &amp; Jerry');
+  });
+
+  it('ends a range that finishes on a separator where the tag starts', () => {
+    const start = text.indexOf('Jerry');
+    const separatorEnd = text.indexOf('Last');
+    expect(sourceOf(start, separatorEnd)).toBe('Jerry');
+  });
+
+  it('maps every chunk back to source that contains its words', () => {
+    const long = `<article>${Array.from({ length: 60 }, (_, i) => `<p>Paragraph ${i} has &quot;quoted&quot; text &amp; more.</p>`).join('\n')}</article>`;
+    const longExtraction = extractMarkupText(long, 'html');
+    const chunks = chunkText(longExtraction.text, {
+      ...DEFAULT_CHUNKING_CONFIG,
+      algorithm: 'fixed',
+      min_chunk_size: 100,
+      max_chunk_size: 400,
+      overlap: 50,
+    });
+    expect(chunks.length).toBeGreaterThan(1);
+
+    for (const chunk of chunks) {
+      const { source_start, source_end } = mapToSource(long, longExtraction, chunk.char_start, chunk.char_end);
+      const source = long.slice(source_start, source_end);
+      // Re-extracting the mapped source gives back the chunk text
+      expect(extractMarkupText(source, 'html').text).toBe(chunk.text.trim());
+    }
+  });
+
+  it('maps an empty range to the end of the source', () => {
+    expect(mapToSource(html, extraction, 3, 3)).toEqual({
+      source_start: html.length,
+      source_end: html.length,
+    });
+  });
+});
+
+describe('getExtractedTextName', () => {
+  it('appends .txt to the original name', () => {
+    expect(getExtractedTextName('page.html')).toBe('page.html.txt');
+  });
+});
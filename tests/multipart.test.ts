@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calculatePartSize,
+  getFilePartSize,
+  getFileTotalParts,
+  getTotalParts,
+} from '../src/lib/multipart';
+import {
+  MAX_PART_SIZE,
+  MIN_PART_SIZE,
+  PART_SIZE,
+  TARGET_MULTIPART_PARTS,
+  type FileState,
+} from '../src/types';
+
+const MIB = 1024 * 1024;
+const GIB = 1024 * MIB;
+
+describe('calculatePartSize', () => {
+  it('uses the minimum part size for small multipart files', () => {
+    expect(calculatePartSize(6 * MIB)).toBe(MIN_PART_SIZE);
+    expect(getTotalParts(6 * MIB, calculatePartSize(6 * MIB))).toBe(2);
+    expect(calculatePartSize(100 * MIB)).toBe(MIN_PART_SIZE);
+  });
+
+  it('sizes large files for the target part count in whole MiB', () => {
+    for (const fileSize of [1 * GIB, 5 * GIB, 3 * GIB + 12345]) {
+      const partSize = calculatePartSize(fileSize);
+      expect(partSize % MIB).toBe(0);
+      expect(getTotalParts(fileSize, partSize)).toBeLessThanOrEqual(TARGET_MULTIPART_PARTS);
+      expect(getTotalParts(fileSize, partSize - MIB)).toBeGreaterThan(TARGET_MULTIPART_PARTS);
+    }
+    expect(calculatePartSize(5 * GIB)).toBe(103 * MIB);
+  });
+
+  it('never exceeds R2\'s maximum part size', () => {
+    expect(calculatePartSize(1000 * GIB)).toBe(MAX_PART_SIZE);
+  });
+});
+
+describe('getTotalParts', () => {
+  it('counts a shorter last part', () => {
+    expect(getTotalParts(20 * MIB, 10 * MIB)).toBe(2);
+    expect(getTotalParts(20 * MIB + 1, 10 * MIB)).toBe(3);
+  });
+});
+
+describe('getFilePartSize / getFileTotalParts', () => {
+  it('use the recorded part size', () => {
+    const file = { file_size: 20 * MIB, part_size: 7 * MIB } as FileState;
+    expect(getFilePartSize(file)).toBe(7 * MIB);
+    expect(getFileTotalParts(file)).toBe(3);
+  });
+
+  it('fall back to PART_SIZE for files started before part sizes were recorded', () => {
+    const file = { file_size: 25 * MIB } as FileState;
+    expect(getFilePartSize(file)).toBe(PART_SIZE);
+    expect(getFileTotalParts(file)).toBe(3);
+  });
+});
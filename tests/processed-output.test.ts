@@ -0,0 +1,179 @@
+import { describe, it, expect } from 'vitest';
+import { validateProcessedOutput } from '../src/lib/processed-output';
+import type { EnqueueProcessedRequest, FileState, ProcessedFileInfo } from '../src/types';
+
+const BATCH = '01KBATCH';
+const PREFIX = `staging/${BATCH}/`;
+
+const processingConfig = { ocr: false, pinax: false, cheimarros: false, describe: false };
+
+function uploaded(path: string, size: number): FileState {
+  return {
+    r2_key: `${PREFIX}${path.slice(1)}`,
+    file_name: path.slice(path.lastIndexOf('/') + 1),
+    file_size: size,
+    logical_path: path,
+    content_type: 'application/octet-stream',
+    processing_config: processingConfig,
+    upload_type: 'simple',
+    status: 'completed',
+  };
+}
+
+function passThrough(file: FileState): ProcessedFileInfo {
+  return {
+    r2_key: file.r2_key,
+    logical_path: file.logical_path,
+    file_name: file.file_name,
+    file_size: file.file_size,
+    content_type: file.content_type,
+    cid: '',
+  };
+}
+
+/**
+ * Minimal R2 bucket that only answers list() - one object per page
+ * so the cursor loop is exercised
+ */
+function fakeBucket(objects: Record<string, number>): R2Bucket {
+  const keys = Object.keys(objects).sort();
+  return {
+    async list(options?: R2ListOptions) {
+      const index = options?.cursor ? Number(options.cursor) : 0;
+      const page = keys
+        .slice(index)
+        .filter((key) => key.startsWith(options?.prefix ?? ''))
+        .slice(0, 1);
+      const next = index + 1;
+      return {
+        objects: page.map((key) => ({ key, size: objects[key]! })),
+        truncated: next < keys.length,
+        cursor: String(next),
+        delimitedPrefixes: [],
+      };
+    },
+  } as unknown as R2Bucket;
+}
+
+describe('validateProcessedOutput', () => {
+  const scan = uploaded('/box/scan.tiff', 1000);
+  const notes = uploaded('/box/notes.txt', 10);
+  const originals = [scan, notes];
+  const nodePis = { '/box': 'PI_BOX' };
+  const jpeg: ProcessedFileInfo = {
+    ...passThrough(scan),
+    r2_key: `${PREFIX}box/scan.jpg`,
+    file_name: 'scan.jpg',
+    logical_path: '/box/scan.jpg',
+    file_size: 200,
+    content_type: 'image/jpeg',
+    derived_from: { r2_key: scan.r2_key, transform: 'tiff_to_jpeg' },
+  };
+  const stored = { [notes.r2_key]: 10, [jpeg.r2_key]: 200, [scan.r2_key]: 1000 };
+
+  const validate = (request: EnqueueProcessedRequest, objects: Record<string, number> = stored) =>
+    validateProcessedOutput(fakeBucket(objects), BATCH, originals, nodePis, request);
+
+  it('accepts passed-through and derived files that exist in R2', async () => {
+    const errors = await validate({ files: [passThrough(notes), jpeg], node_pis: nodePis });
+    expect(errors).toEqual([]);
+  });
+
+  it('rejects keys outside the batch staging prefix', async () => {
+    const errors = await validate({
+      files: [
+        passThrough(notes),
+        jpeg,
+        { ...jpeg, r2_key: 'staging/OTHER/box/scan.jpg' },
+        { ...jpeg, r2_key: `${PREFIX}box/../../OTHER/x.jpg` },
+      ],
+      node_pis: nodePis,
+    });
+    expect(errors).toEqual([
+      `staging/OTHER/box/scan.jpg: r2_key must be under ${PREFIX}`,
+      `${PREFIX}box/../../OTHER/x.jpg: r2_key must be under ${PREFIX}`,
+    ]);
+  });
+
+  it('rejects duplicate keys and missing metadata', async () => {
+    const errors = await validate({
+      files: [
+        passThrough(notes),
+        passThrough(notes),
+        { ...jpeg, file_name: '', file_size: -1, content_type: '' },
+      ],
+      node_pis: nodePis,
+    });
+    expect(errors).toEqual([
+      `${notes.r2_key}: duplicate r2_key`,
+      `${jpeg.r2_key}: missing file_name`,
+      `${jpeg.r2_key}: invalid file_size`,
+      `${jpeg.r2_key}: missing content_type`,
+    ]);
+  });
+
+  it('keeps files in directories discovery created', async () => {
+    const errors = await validate({
+      files: [passThrough(notes), { ...jpeg, logical_path: '/elsewhere/scan.jpg' }],
+      node_pis: nodePis,
+    });
+    expect(errors).toEqual([`${jpeg.r2_key}: directory /elsewhere is not part of this batch`]);
+  });
+
+  it('requires every uploaded file to be passed through or derived from', async () => {
+    const errors = await validate({
+      files: [
+        { ...jpeg, derived_from: { r2_key: `${PREFIX}box/unknown.tiff`, transform: '' } },
+        { ...jpeg, r2_key: `${PREFIX}box/extra.jpg`, derived_from: undefined },
+      ],
+      node_pis: nodePis,
+    });
+    expect(errors).toEqual([
+      `${jpeg.r2_key}: derived_from.r2_key is not an uploaded file in this batch`,
+      `${jpeg.r2_key}: missing derived_from.transform`,
+      `${PREFIX}box/extra.jpg: not an uploaded file and has no derived_from record`,
+      `${scan.r2_key}: uploaded file missing from output (not passed through or derived from)`,
+      `${notes.r2_key}: uploaded file missing from output (not passed through or derived from)`,
+    ]);
+  });
+
+  it('requires every directory to keep its PI', async () => {
+    expect(await validate({ files: [passThrough(notes), jpeg] })).toEqual(['node_pis: missing directory /box']);
+    expect(await validate({ files: [passThrough(notes), jpeg], node_pis: { '/box': 'PI_OTHER' } })).toEqual([
+      'node_pis: /box is PI_OTHER, expected PI_BOX',
+    ]);
+  });
+
+  it('checks existence and size against R2 across list pages', async () => {
+    const errors = await validate(
+      { files: [passThrough(notes), jpeg], node_pis: nodePis },
+      { [notes.r2_key]: 11, [scan.r2_key]: 1000 }
+    );
+    expect(errors).toEqual([
+      `${notes.r2_key}: file_size 10 does not match R2 (11 bytes)`,
+      `${jpeg.r2_key}: object not found in R2`,
+    ]);
+  });
+
+  it('does not list R2 when the file list is already invalid', async () => {
+    const bucket = {
+      list: () => {
+        throw new Error('unexpected list');
+      },
+    } as unknown as R2Bucket;
+    const errors = await validateProcessedOutput(bucket, BATCH, originals, nodePis, {
+      files: [passThrough(notes)],
+      node_pis: nodePis,
+    });
+    expect(errors).toEqual([
+      `${scan.r2_key}: uploaded file missing from output (not passed through or derived from)`,
+    ]);
+  });
+
+  it('caps the number of reported errors', async () => {
+    const files = Array.from({ length: 30 }, (_, i) => ({ ...jpeg, r2_key: `other/${i}` }));
+    const errors = await validate({ files, node_pis: nodePis });
+    expect(errors).toHaveLength(21);
+    expect(errors[20]).toBe('...and 12 more');
+  });
+});
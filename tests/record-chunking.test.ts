@@ -0,0 +1,144 @@
+import { describe, it, expect } from 'vitest';
+import { chunkCsv, chunkJson } from '../src/lib/record-chunking';
+import {
+  DEFAULT_CHUNKING_CONFIG,
+  getChunkContent,
+  type ChunkingConfig,
+  type ChunkResult,
+} from '../src/lib/chunking';
+import { estimateTokens } from '../src/lib/tokenizer';
+
+const config: ChunkingConfig = {
+  ...DEFAULT_CHUNKING_CONFIG,
+  algorithm: 'fixed',
+  min_chunk_size: 100,
+  max_chunk_size: 200,
+  overlap: 0,
+};
+
+/**
+ * Chunk content as the CHUNKING phase rebuilds it from the source
+ */
+function expectReSliceable(source: string, chunks: ChunkResult[]): void {
+  chunks.forEach((chunk, index) => {
+    expect(chunk.id).toBe(`chunk_${index}`);
+    expect(getChunkContent(source, chunk)).toBe(chunk.text);
+  });
+}
+
+describe('chunkCsv', () => {
+  const header = 'id,name,notes';
+  const rows = Array.from({ length: 40 }, (_, i) => `${i},item ${i},"note for ${i}"`);
+  const csv = [header, ...rows].join('\n') + '\n';
+
+  it('returns no chunks below min_chunk_size', () => {
+    expect(chunkCsv('a,b\n1,2\n', config)).toEqual([]);
+  });
+
+  it('produces chunks that can be re-sliced from the source', () => {
+    const chunks = chunkCsv(csv, config);
+    expect(chunks.length).toBeGreaterThan(1);
+    expectReSliceable(csv, chunks);
+  });
+
+  it('keeps the header in place in the first chunk and repeats it after', () => {
+    const [first, ...rest] = chunkCsv(csv, config);
+    expect(first!.char_start).toBe(0);
+    expect(first!.header_chars).toBeUndefined();
+    for (const chunk of rest) {
+      expect(chunk.header_chars).toBe(header.length + 1);
+      expect(chunk.text.startsWith(`${header}\n`)).toBe(true);
+    }
+  });
+
+  it('records contiguous data row ranges', () => {
+    const chunks = chunkCsv(csv, config);
+    expect(chunks[0]!.row_start).toBe(0);
+    for (let i = 1; i < chunks.length; i++) {
+      expect(chunks[i]!.row_start).toBe(chunks[i - 1]!.row_end);
+    }
+    expect(chunks[chunks.length - 1]!.row_end).toBe(rows.length);
+
+    // A chunk's text holds exactly its rows
+    const chunk = chunks[1]!;
+    const body = chunk.text.slice(chunk.header_chars ?? 0).split('\n');
+    expect(body).toEqual(rows.slice(chunk.row_start, chunk.row_end));
+  });
+
+  it('never splits a quoted field containing a newline', () => {
+    const quoted = [
+      header,
+      ...Array.from({ length: 20 }, (_, i) => `${i},item,"line one\nline two ${i}"`),
+    ].join('\n');
+    const chunks = chunkCsv(quoted, config);
+    expectReSliceable(quoted, chunks);
+    for (const chunk of chunks) {
+      const body = chunk.text.slice(chunk.header_chars ?? 0);
+      expect(body.split('"').length % 2).toBe(1);
+    }
+  });
+
+  it('splits a row larger than a chunk on its own', () => {
+    const big = [header, '1,short,x', `2,long,"${'word '.repeat(100)}"`, '3,short,y'].join('\n');
+    const chunks = chunkCsv(big, config);
+    expectReSliceable(big, chunks);
+    const pieces = chunks.filter((chunk) => chunk.row_start === 1);
+    expect(pieces.length).toBeGreaterThan(1);
+    pieces.forEach((piece) => expect(piece.row_end).toBe(2));
+  });
+
+  it('sizes chunks, header included, in tokens when configured', () => {
+    const tokenConfig: ChunkingConfig = { ...config, unit: 'tokens', max_chunk_size: 100 };
+    const chunks = chunkCsv(csv, tokenConfig);
+    expect(chunks.length).toBeGreaterThan(1);
+    expectReSliceable(csv, chunks);
+    for (const chunk of chunks) {
+      expect(estimateTokens(chunk.text)).toBeLessThanOrEqual(tokenConfig.max_chunk_size);
+    }
+    // Rows are far shorter in tokens than in characters, so fewer chunks
+    expect(chunks.length).toBeLessThan(chunkCsv(csv, { ...config, max_chunk_size: 100 }).length);
+  });
+});
+
+describe('chunkJson', () => {
+  const elements = Array.from({ length: 30 }, (_, i) => JSON.stringify({ id: i, name: `item ${i}` }));
+
+  it('splits a top-level array between elements', () => {
+    const json = `[\n  ${elements.join(',\n  ')}\n]\n`;
+    const chunks = chunkJson(json, config);
+    expect(chunks.length).toBeGreaterThan(1);
+    expectReSliceable(json, chunks);
+
+    expect(chunks[0]!.element_start).toBe(0);
+    for (let i = 1; i < chunks.length; i++) {
+      expect(chunks[i]!.element_start).toBe(chunks[i - 1]!.element_end);
+    }
+    expect(chunks[chunks.length - 1]!.element_end).toBe(elements.length);
+
+    // Every chunk starts and ends on an element boundary
+    for (const chunk of chunks) {
+      const parsed = JSON.parse(`[${chunk.text}]`);
+      expect(parsed.map((e: { id: number }) => e.id)).toEqual(
+        Array.from({ length: chunk.element_end! - chunk.element_start! }, (_, i) => chunk.element_start! + i)
+      );
+    }
+  });
+
+  it('splits JSON Lines between lines', () => {
+    const jsonl = elements.join('\n') + '\n';
+    const chunks = chunkJson(jsonl, config);
+    expect(chunks.length).toBeGreaterThan(1);
+    expectReSliceable(jsonl, chunks);
+    for (const chunk of chunks) {
+      expect(chunk.text.split('\n')).toEqual(elements.slice(chunk.element_start, chunk.element_end));
+    }
+  });
+
+  it('falls back to plain text chunking for other JSON', () => {
+    const object = JSON.stringify({ items: elements.map((e) => JSON.parse(e)) }, null, 2);
+    const chunks = chunkJson(object, config);
+    expect(chunks.length).toBeGreaterThan(1);
+    expectReSliceable(object, chunks);
+    chunks.forEach((chunk) => expect(chunk.element_start).toBeUndefined());
+  });
+});
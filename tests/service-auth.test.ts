@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getSignedContent,
+  verifyServiceSignature,
+  SIGNATURE_TOLERANCE_SECONDS,
+} from '../src/lib/service-auth';
+
+const SECRET = 'test-secret';
+
+async function sign(secret: string, message: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(message));
+  return `sha256=${Buffer.from(signature).toString('hex')}`;
+}
+
+function now(): string {
+  return Math.floor(Date.now() / 1000).toString();
+}
+
+describe('verifyServiceSignature', () => {
+  const path = '/api/batches/01KBATCHA/processing-events';
+  const body = getSignedContent('POST', path, '{"outcome":"completed"}');
+
+  it('accepts a valid signature', async () => {
+    const timestamp = now();
+    const signature = await sign(SECRET, `${timestamp}.${body}`);
+    expect(await verifyServiceSignature(SECRET, timestamp, signature, body)).toBeNull();
+  });
+
+  it('accepts an upper-case hex signature', async () => {
+    const timestamp = now();
+    const signature = await sign(SECRET, `${timestamp}.${body}`);
+    const upper = `sha256=${signature.slice('sha256='.length).toUpperCase()}`;
+    expect(await verifyServiceSignature(SECRET, timestamp, upper, body)).toBeNull();
+  });
+
+  it('rejects when no secret is configured', async () => {
+    expect(await verifyServiceSignature(undefined, now(), 'sha256=00', body)).toBe(
+      'Service authentication is not configured'
+    );
+  });
+
+  it('rejects missing headers', async () => {
+    expect(await verifyServiceSignature(SECRET, undefined, 'sha256=00', body)).toMatch(/^Missing/);
+    expect(await verifyServiceSignature(SECRET, now(), undefined, body)).toMatch(/^Missing/);
+  });
+
+  it('rejects a stale or malformed timestamp', async () => {
+    const stale = (Math.floor(Date.now() / 1000) - SIGNATURE_TOLERANCE_SECONDS - 10).toString();
+    const signature = await sign(SECRET, `${stale}.${body}`);
+    expect(await verifyServiceSignature(SECRET, stale, signature, body)).toBe(
+      'Request timestamp outside allowed window'
+    );
+    expect(await verifyServiceSignature(SECRET, 'soon', signature, body)).toBe('Invalid X-Arke-Timestamp header');
+  });
+
+  it('rejects a malformed signature header', async () => {
+    expect(await verifyServiceSignature(SECRET, now(), 'md5=abc', body)).toBe('Invalid X-Arke-Signature header');
+  });
+
+  it('rejects a wrong secret or a modified body', async () => {
+    const timestamp = now();
+    const wrongKey = await sign('other-secret', `${timestamp}.${body}`);
+    expect(await verifyServiceSignature(SECRET, timestamp, wrongKey, body)).toBe('Invalid signature');
+
+    const signature = await sign(SECRET, `${timestamp}.${body}`);
+    const modified = getSignedContent('POST', path, '{"outcome":"failed"}');
+    expect(await verifyServiceSignature(SECRET, timestamp, signature, modified)).toBe('Invalid signature');
+  });
+
+  it('binds the signature to the method, path and batch', async () => {
+    const timestamp = now();
+    const signature = await sign(SECRET, `${timestamp}.${body}`);
+    const otherBatch = getSignedContent('POST', '/api/batches/01KBATCHB/processing-events', '{"outcome":"completed"}');
+    const otherEndpoint = getSignedContent('POST', '/api/batches/01KBATCHA/enqueue-processed', '{"outcome":"completed"}');
+    expect(await verifyServiceSignature(SECRET, timestamp, signature, otherBatch)).toBe('Invalid signature');
+    expect(await verifyServiceSignature(SECRET, timestamp, signature, otherEndpoint)).toBe('Invalid signature');
+  });
+});
+
+describe('getSignedContent', () => {
+  it('joins the upper-cased method, path and body', () => {
+    expect(getSignedContent('post', '/api/batches/B/processing-events', '{}')).toBe(
+      'POST./api/batches/B/processing-events.{}'
+    );
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import { estimateTokens } from '../src/lib/tokenizer';
+import {
+  chunkText,
+  getTextMeasure,
+  DEFAULT_CHUNKING_CONFIG,
+  type ChunkingConfig,
+} from '../src/lib/chunking';
+
+describe('estimateTokens', () => {
+  it('counts nothing for empty text', () => {
+    expect(estimateTokens('')).toBe(0);
+  });
+
+  it('counts about four ASCII letters per token', () => {
+    expect(estimateTokens('cat')).toBe(1);
+    expect(estimateTokens('hello')).toBe(2);
+    expect(estimateTokens('internationalization')).toBe(5);
+  });
+
+  it('merges a single space into the next word', () => {
+    expect(estimateTokens('hello world')).toBe(4);
+    expect(estimateTokens('the cat sat')).toBe(3);
+  });
+
+  it('counts other whitespace runs as one token', () => {
+    expect(estimateTokens('a\n\nb')).toBe(3);
+    expect(estimateTokens('a    b')).toBe(3);
+  });
+
+  it('counts up to three digits per token', () => {
+    expect(estimateTokens('123')).toBe(1);
+    expect(estimateTokens('1234567')).toBe(3);
+  });
+
+  it('counts one token per symbol and CJK character', () => {
+    expect(estimateTokens('a, b!')).toBe(4);
+    expect(estimateTokens('日本語')).toBe(3);
+    expect(estimateTokens('한국어')).toBe(3);
+    expect(estimateTokens('😀')).toBe(1);
+  });
+
+  it('counts about two characters per token for other scripts', () => {
+    expect(estimateTokens('Привет')).toBe(3);
+    expect(estimateTokens('naïve')).toBe(3);
+  });
+});
+
+describe('token-based chunk sizing', () => {
+  const prose = Array.from(
+    { length: 400 },
+    (_, i) => `Sentence ${i} talks about archives, records and metadata.`
+  ).join(' ');
+
+  const tokenConfig: ChunkingConfig = {
+    ...DEFAULT_CHUNKING_CONFIG,
+    unit: 'tokens',
+    algorithm: 'fixed',
+    min_chunk_size: 100,
+    max_chunk_size: 200,
+    overlap: 20,
+  };
+
+  it('measures text in the configured unit', () => {
+    expect(getTextMeasure(DEFAULT_CHUNKING_CONFIG)('hello world')).toBe(11);
+    expect(getTextMeasure(tokenConfig)('hello world')).toBe(4);
+  });
+
+  it('keeps chunks within the token budget as exact source slices', () => {
+    const chunks = chunkText(prose, tokenConfig);
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) {
+      expect(chunk.text).toBe(prose.slice(chunk.char_start, chunk.char_end));
+      expect(estimateTokens(chunk.text)).toBeLessThanOrEqual(tokenConfig.max_chunk_size);
+    }
+    expect(chunks[chunks.length - 1]!.char_end).toBe(prose.length);
+  });
+
+  it('fits more characters per chunk than the same size in characters', () => {
+    const byTokens = chunkText(prose, tokenConfig);
+    const byChars = chunkText(prose, { ...tokenConfig, unit: 'chars' });
+    expect(byTokens.length).toBeLessThan(byChars.length);
+  });
+
+  it('overlaps chunks by roughly the configured token count', () => {
+    const chunks = chunkText(prose, tokenConfig);
+    for (let i = 1; i < chunks.length; i++) {
+      const overlap = chunks[i - 1]!.char_end - chunks[i]!.char_start;
+      expect(overlap).toBeGreaterThan(0);
+      expect(estimateTokens(prose.slice(chunks[i]!.char_start, chunks[i - 1]!.char_end))).toBeLessThanOrEqual(
+        tokenConfig.overlap
+      );
+    }
+  });
+
+  it('splits unbroken text by tokens as a last resort', () => {
+    const unbroken = '日本語'.repeat(200);
+    const chunks = chunkText(unbroken, { ...tokenConfig, overlap: 0 });
+    expect(chunks.map((chunk) => chunk.text).join('')).toBe(unbroken);
+    for (const chunk of chunks) {
+      expect(estimateTokens(chunk.text)).toBeLessThanOrEqual(tokenConfig.max_chunk_size);
+    }
+  });
+});